@@ -1,165 +1,447 @@
 import { config } from 'dotenv';
-import { QdrantClient } from '@qdrant/js-client-rest';
-import { OpenAI } from 'openai';
-import { marked } from 'marked';
 import { glob } from 'glob';
-import { readFileSync } from 'fs';
+import { existsSync, readFileSync, statSync } from 'fs';
+import { execFileSync } from 'child_process';
 import path from 'path';
 import matter from 'gray-matter';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
 import { syncDocs } from './sync-docs';
-import { createHash } from 'crypto';
+import { createHash, randomUUID } from 'crypto';
+import { createEmbedder } from '../src/shared/embedder';
+import { withRetry } from '../src/shared/retry';
+import { getPathPrefixes } from '../src/shared/search';
+import { SparseVector, documentSparseVector } from '../src/shared/sparse';
+import { VectorStore } from '../src/shared/vectorStore';
+import { Corpus, getCorpusDir, getCorpusStore, getNestedCorpusDirs, getSourceUrl, selectCorpora } from '../src/shared/corpora';
+import { chunkMarkdown, formatBreadcrumb } from '../src/shared/chunker';
+import { getDocumentId } from '../src/shared/documents';
+import {
+  IndexCheckpoint,
+  IndexManifest,
+  clearCheckpoint,
+  createManifest,
+  hashContent,
+  loadCheckpoint,
+  loadManifest,
+  saveCheckpoint,
+} from '../src/shared/indexManifest';
 
 // Load environment variables
 config();
 
 // Initialize clients
-const qdrant = new QdrantClient({
-  url: process.env.QDRANT_URL,
-  apiKey: process.env.QDRANT_API_KEY,
-});
+const embedder = createEmbedder();
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+const EMBEDDING_BATCH_SIZE = Number(process.env.EMBEDDING_BATCH_SIZE) || 64;
 
-const COLLECTION_NAME = 'jito_docs';
-const CHUNK_SIZE = 1000; // characters
-const CHUNK_OVERLAP = 200;
-const DOCS_DIR = path.join(process.cwd(), 'docs');
+// How often progress is made durable: the store flushed, then the checkpoint saved
+const CHECKPOINT_INTERVAL_MS = 5000;
+
+// State shared by every file of one corpus processed in one run
+interface IndexRun {
+  corpus: Corpus;
+  store: VectorStore;
+  docsDir: string;
+  manifest: IndexManifest;
+  checkpoint: IndexCheckpoint;
+  force: boolean;
+  changed: number; // Files upserted or removed, to decide whether to bump the index version
+  pending: string[]; // Files indexed since the last checkpoint, not yet in `checkpoint.completed`
+  savedAt: number;
+}
 
 interface DocChunk {
   id: string;
   content: string;
   metadata: {
+    corpus: string;
+    docId: string; // Shared by every chunk of the document, see getDocumentId
     path: string;
+    fileHash: string; // Content hash the chunks were written from, see hashContent
+    pathPrefixes: string[]; // Ancestor directories of `path`, for path-prefix filters
     section: string;
     title: string;
-    lastUpdated: string;
-    url: string; // GitHub URL to the document
+    tags: string[]; // Lowercased frontmatter tags
+    breadcrumb: string; // Heading path, e.g. "Staking > Restaking > Vaults"
+    lastUpdated: string; // Last commit touching the file, else its modification time
+    url: string; // Source URL of the document, from the corpus's template
+    chunkIndex: number; // Position of the chunk within the document, from 0
+    totalChunks: number;
   };
   embedding: number[];
+  sparse: SparseVector;
 }
 
-async function createCollection() {
-  try {
-    await qdrant.getCollection(COLLECTION_NAME);
-  } catch {
-    await qdrant.createCollection(COLLECTION_NAME, {
-      vectors: {
-        size: 1536, // OpenAI embedding size
-        distance: 'Cosine',
-      },
-    });
+async function createCollection(store: VectorStore, recreate: boolean) {
+  const size = await embedder.dimensions();
+
+  if (recreate) {
+    console.log(`Recreating collection ${store.collection}...`);
+    await store.deleteCollection();
   }
-}
 
-function extractTextFromMarkdown(markdown: string): string {
-  const tokens = marked.lexer(markdown);
-  return tokens.map(token => {
-    if (token.type === 'paragraph') return token.text;
-    if (token.type === 'heading') return token.text;
-    if (token.type === 'list') {
-      return token.items
-        .map((item: any) => item.text)
-        .join('\n');
-    }
-    return '';
-  }).join('\n');
+  const existing = await store.getCollection();
+  if (!existing) {
+    await store.createCollection(size); // Derived from the configured embedding model
+    await store.createPayloadIndexes();
+    return;
+  }
+
+  // Collections built before hybrid search, or with another model, cannot be searched
+  if (existing.denseSize === undefined || !existing.hasSparse) {
+    throw new Error(
+      `Collection ${store.collection} lacks the dense/sparse vectors hybrid search needs; rerun with --recreate`
+    );
+  }
+  if (existing.denseSize !== size) {
+    throw new Error(
+      `Collection ${store.collection} has ${existing.denseSize}-dim vectors but ${embedder.provider}/${embedder.model} produces ${size}; ` +
+      'rerun with --recreate or switch EMBEDDING_MODEL back'
+    );
+  }
+
+  // Collections created before search filters existed lack the payload indexes
+  await store.createPayloadIndexes();
 }
 
-function chunkText(text: string): string[] {
-  const chunks: string[] = [];
-  let currentChunk = '';
+/**
+ * Embeds texts in batches of EMBEDDING_BATCH_SIZE, one API request per batch
+ */
+async function generateEmbeddings(texts: string[]): Promise<number[][]> {
+  const embeddings: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    embeddings.push(...await embedder.embed(texts.slice(i, i + EMBEDDING_BATCH_SIZE)));
+  }
+  return embeddings;
+}
 
-  const sentences = text.split(/(?<=[.!?])\s+/);
+/**
+ * Runs `worker` over `items` with at most `concurrency` calls in flight.
+ * Failures are collected rather than aborting the remaining items.
+ */
+async function runPool<T>(items: T[], concurrency: number, worker: (item: T) => Promise<void>): Promise<{ item: T, error: unknown }[]> {
+  const failures: { item: T, error: unknown }[] = [];
+  let next = 0;
 
-  for (const sentence of sentences) {
-    if (currentChunk.length + sentence.length > CHUNK_SIZE) {
-      chunks.push(currentChunk.trim());
-      currentChunk = sentence;
-    } else {
-      currentChunk += ' ' + sentence;
+  const lanes = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      try {
+        await worker(item);
+      } catch (error) {
+        failures.push({ item, error });
+      }
     }
-  }
+  });
 
-  if (currentChunk) {
-    chunks.push(currentChunk.trim());
-  }
+  await Promise.all(lanes);
+  return failures;
+}
 
-  return chunks;
+/**
+ * Returns when a document last changed: its last commit if the corpus is a Git
+ * checkout, otherwise the file's modification time
+ */
+function getLastUpdated(filePath: string, docsDir: string): string {
+  try {
+    const committed = execFileSync('git', ['log', '-1', '--format=%cI', '--', filePath], {
+      cwd: docsDir,
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    }).trim();
+    if (committed) {
+      return new Date(committed).toISOString();
+    }
+  } catch {
+    // Not a Git checkout
+  }
+  return statSync(filePath).mtime.toISOString();
 }
 
-async function generateEmbedding(text: string): Promise<number[]> {
-  const response = await openai.embeddings.create({
-    input: text,
-    model: 'text-embedding-3-small'
-  });
+/**
+ * Normalizes frontmatter tags, which may be a list or a comma-separated string
+ */
+function getTags(frontmatter: Record<string, unknown>): string[] {
+  const tags = frontmatter.tags ?? frontmatter.keywords;
+  const list = Array.isArray(tags) ? tags : typeof tags === 'string' ? tags.split(',') : [];
+  return list.map((tag) => String(tag).trim().toLowerCase()).filter(Boolean);
+}
 
-  return response.data[0].embedding;
+/**
+ * Point ID of a chunk, from the corpus, the file's path relative to the corpus
+ * directory and the chunk's position, so every checkout (CI, the webhook host,
+ * a developer machine) writes the same chunk under the same ID
+ */
+function generateId(corpusName: string, relativePath: string, chunkIndex: number): string {
+  return createHash('md5').update(`${corpusName}:${relativePath}:${chunkIndex}`).digest('hex');
 }
 
-function getGitHubUrl(filePath: string): string {
-  const relativePath = path.relative(DOCS_DIR, filePath);
-  return `https://github.com/jito-foundation/jito-omnidocs/blob/master/${relativePath}`;
+/**
+ * Records in the checkpoint that the run is about to change the collection
+ */
+function markChanged(run: IndexRun) {
+  if (!run.checkpoint.changed) {
+    run.checkpoint.changed = true;
+    saveCheckpoint(run.checkpoint);
+  }
 }
 
-function generateId(filePath: string, chunkIndex: number): string {
-  const hash = createHash('md5').update(`${filePath}-${chunkIndex}`).digest('hex');
-  return hash;
+/**
+ * Flushes the store and records the files indexed since the last checkpoint,
+ * at most every CHECKPOINT_INTERVAL_MS unless `force` is set. A file is only
+ * marked completed once its points are durable, so an interrupted run redoes
+ * whatever was still buffered.
+ */
+async function saveProgress(run: IndexRun, force = false) {
+  if (!force && Date.now() - run.savedAt < CHECKPOINT_INTERVAL_MS) {
+    return;
+  }
+  run.savedAt = Date.now();
+  await run.store.flush();
+  run.checkpoint.completed.push(...run.pending.splice(0));
+  saveCheckpoint(run.checkpoint);
 }
 
-async function processFile(filePath: string) {
-  console.log(`Processing ${filePath}...`);
-  
+async function processFile(filePath: string, run: IndexRun) {
+  const { corpus, store, docsDir, manifest, checkpoint } = run;
+  const relativePath = path.relative(docsDir, filePath);
+
+  if (checkpoint.completed.includes(relativePath)) {
+    console.log(`Skipping ${filePath}, already indexed by the interrupted run`);
+    return;
+  }
+
   const fileContent = readFileSync(filePath, 'utf-8');
+  const hash = hashContent(fileContent, embedder.model);
+  const previous = manifest.files[relativePath];
+
+  if (!run.force && previous?.hash === hash) {
+    console.log(`Skipping unchanged ${filePath}`);
+    return;
+  }
+
+  console.log(`Processing ${filePath}...`);
   const { data: frontmatter, content } = matter(fileContent);
   
-  const section = path.relative(DOCS_DIR, path.dirname(filePath)).split('/')[0];
-  const plainText = extractTextFromMarkdown(content);
-  const chunks = chunkText(plainText);
-
-  const points: DocChunk[] = [];
-
-  for (let i = 0; i < chunks.length; i++) {
-    const chunk = chunks[i];
-    const embedding = await generateEmbedding(chunk);
-
-    points.push({
-      id: generateId(filePath, i),
-      content: chunk,
-      metadata: {
-        path: path.relative(DOCS_DIR, filePath),
-        section,
-        title: frontmatter.title || '',
-        lastUpdated: new Date().toISOString(),
-        url: getGitHubUrl(filePath),
-      },
-      embedding,
-    });
+  const section = path.relative(docsDir, path.dirname(filePath)).split('/')[0];
+  const chunks = chunkMarkdown(content);
+  if (chunks.length === 0 && !previous) {
+    // Nothing is stored for it, so nothing records it as indexed either
+    console.log(`No content to index in ${filePath}`);
+    return;
   }
+  const title = frontmatter.title || chunks[0]?.headings[0] || '';
+  const tags = getTags(frontmatter);
+  const lastUpdated = getLastUpdated(filePath, docsDir);
+  const docId = getDocumentId(corpus.name, relativePath);
 
-  // Upsert points to Qdrant
-  await qdrant.upsert(COLLECTION_NAME, {
-    points: points.map(point => ({
+  const embeddings = await generateEmbeddings(chunks.map((chunk) => chunk.content));
+
+  const points: DocChunk[] = chunks.map((chunk, i) => ({
+    id: generateId(corpus.name, relativePath, i),
+    content: chunk.content,
+    metadata: {
+      corpus: corpus.name,
+      docId,
+      path: relativePath,
+      fileHash: hash,
+      pathPrefixes: getPathPrefixes(relativePath),
+      section,
+      title,
+      tags,
+      breadcrumb: formatBreadcrumb(chunk.headings),
+      lastUpdated,
+      url: getSourceUrl(corpus, relativePath),
+      chunkIndex: i,
+      totalChunks: chunks.length,
+    },
+    embedding: embeddings[i],
+    sparse: documentSparseVector(chunk.content),
+  }));
+
+  // Upsert points to the vector store
+  markChanged(run);
+  if (points.length > 0) {
+    await withRetry(() => store.upsert(points.map(point => ({
       id: point.id,
-      vector: point.embedding,
+      dense: point.embedding,
+      sparse: point.sparse,
       payload: {
         content: point.content,
         metadata: point.metadata,
       },
-    })),
-  });
+    }))), { label: `Upsert for ${relativePath}` });
+  }
+
+  // Drop the file's other chunks: those of a longer previous version, or ones
+  // written under the absolute-path IDs of indexers before schema version 6
+  if (previous) {
+    await store.delete({
+      filter: {
+        must: [{ key: 'metadata.path', match: { value: relativePath } }],
+        must_not: [{ has_id: points.map((point) => point.id) }],
+      },
+    });
+  }
+
+  // Record progress so an interrupted run resumes where it stopped
+  manifest.files[relativePath] = { hash, chunks: points.length };
+  run.pending.push(relativePath);
+  run.changed++;
+  await saveProgress(run);
 
   console.log(`Indexed ${points.length} chunks from ${filePath}`);
 }
 
+/**
+ * Deletes every point of a file that no longer exists in the docs repository
+ */
+async function removeFile(relativePath: string, run: IndexRun) {
+  const { store, manifest } = run;
+  if (manifest.files[relativePath]) {
+    markChanged(run);
+  }
+  await store.delete({
+    filter: {
+      must: [{ key: 'metadata.path', match: { value: relativePath } }],
+    },
+  });
+
+  if (!manifest.files[relativePath]) {
+    console.log(`Nothing stored for deleted file ${relativePath}`);
+    return;
+  }
+  delete manifest.files[relativePath];
+  run.changed++;
+
+  console.log(`Removed deleted file ${relativePath}`);
+}
+
+/**
+ * Removes manifest entries under `scope` (a path prefix relative to the docs
+ * dir, or '' for everything) whose files were not seen in this run
+ */
+async function removeDeletedFiles(seen: string[], scope: string, run: IndexRun) {
+  const present = new Set(seen.map((file) => path.relative(run.docsDir, file)));
+  for (const relativePath of Object.keys(run.manifest.files)) {
+    if (relativePath.startsWith(scope) && !present.has(relativePath)) {
+      await removeFile(relativePath, run);
+    }
+  }
+}
+
+interface IndexOptions {
+  file?: string[];
+  section?: string;
+  force: boolean;
+  recreate: boolean;
+  concurrency: number;
+}
+
+/**
+ * Indexes one corpus into its collection. Returns false if any file failed.
+ */
+async function indexCorpus(corpus: Corpus, options: IndexOptions): Promise<boolean> {
+  console.log(`Indexing corpus ${corpus.name} into ${corpus.collection}...`);
+  const store = getCorpusStore(corpus);
+  const docsDir = getCorpusDir(corpus);
+
+  // Resume an interrupted run with the same options instead of starting over
+  const runKey = JSON.stringify({ file: options.file, section: options.section, force: options.force, recreate: options.recreate });
+  const previousCheckpoint = loadCheckpoint(corpus.name);
+  const resuming = previousCheckpoint?.runKey === runKey;
+  const checkpoint: IndexCheckpoint = resuming
+    ? previousCheckpoint
+    : { corpus: corpus.name, runKey, startedAt: new Date().toISOString(), completed: [] };
+  if (resuming) {
+    console.log(`Resuming run started at ${checkpoint.startedAt} (${checkpoint.completed.length} files already indexed)`);
+  }
+  saveCheckpoint(checkpoint);
+
+  const recreate = options.recreate && !resuming;
+  await createCollection(store, recreate);
+
+  // A recreated collection is empty, so there is nothing to read back
+  const manifest = recreate
+    ? createManifest(corpus.name)
+    : await loadManifest(store, corpus.name, options.file);
+  const run: IndexRun = { corpus, store, docsDir, manifest, checkpoint, force: options.force, changed: 0, pending: [], savedAt: Date.now() };
+
+  // Another corpus checked out inside this one belongs to that corpus
+  const ignore = getNestedCorpusDirs(corpus).map((dir) => `${dir}/**`);
+  let files: string[] = [];
+  let scope: string | undefined;
+  if (options.file) {
+    // Files outside the corpus glob, such as images or config, are not documents
+    const indexable = new Set(await glob(corpus.glob, { cwd: docsDir, ignore }));
+    for (const file of options.file) {
+      if (indexable.has(file)) {
+        files.push(path.join(docsDir, file));
+      } else if (existsSync(path.join(docsDir, file))) {
+        console.warn(`File ${file} is not a document of corpus ${corpus.name} (${corpus.glob}), skipping`);
+      } else {
+        // Deleted: drop whatever is stored for it, whether or not the manifest knows the file
+        await removeFile(file, run);
+      }
+    }
+  } else if (options.section) {
+    files = await glob(`${docsDir}/${options.section}/${corpus.glob}`, { ignore });
+    scope = `${options.section}/`;
+  } else {
+    files = await glob(`${docsDir}/${corpus.glob}`, { ignore });
+    scope = '';
+  }
+
+  const failures = await runPool(files, options.concurrency, (file) => processFile(file, run));
+  for (const { item, error } of failures) {
+    console.error(`Failed to index ${item}:`, error instanceof Error ? error.message : error);
+  }
+
+  if (scope !== undefined && failures.length === 0) {
+    await removeDeletedFiles(files, scope, run);
+  }
+  await saveProgress(run, true);
+
+  // A new version tells the servers that their cached search results are stale.
+  // A clean run over the whole corpus is recorded too, for the readiness check's
+  // staleness report; one over some files says nothing about the rest.
+  // The checkpoint also knows about changes made before a resume
+  const changed = run.changed > 0 || Boolean(checkpoint.changed) || recreate;
+  const succeeded = failures.length === 0 && !options.file && !options.section;
+  if (changed || succeeded) {
+    const now = new Date().toISOString();
+    const previous = await store.getIndexState();
+    await store.setIndexState({
+      version: changed || !previous ? randomUUID() : previous.version,
+      updatedAt: changed || !previous ? now : previous.updatedAt,
+      succeededAt: succeeded ? now : previous?.succeededAt,
+    });
+    if (changed) {
+      console.log(`Recorded new index version for ${corpus.collection} (${run.changed} files changed${resuming ? ' by this resumed run' : ''})`);
+    }
+  }
+
+  if (failures.length > 0) {
+    // Keep the checkpoint so rerunning the same command only retries what is left
+    console.error(`${failures.length} of ${files.length} files in ${corpus.name} failed; rerun the same command to resume`);
+    return false;
+  }
+
+  clearCheckpoint(corpus.name);
+  return true;
+}
+
 async function main() {
   const argv = await yargs(hideBin(process.argv))
+    .option('corpus', {
+      type: 'string',
+      description: 'Process a specific corpus (default: all registered corpora)',
+    })
     .option('file', {
       type: 'string',
-      description: 'Process a specific file',
+      array: true,
+      description: 'Process specific files, relative to the corpus directory (repeatable)',
     })
     .option('section', {
       type: 'string',
@@ -170,28 +452,42 @@ async function main() {
       description: 'Sync documentation before indexing',
       default: true,
     })
+    .option('recreate', {
+      type: 'boolean',
+      description: 'Drop and recreate the collection before indexing',
+      default: false,
+    })
+    .option('force', {
+      type: 'boolean',
+      description: 'Re-embed files even if their content hash is unchanged',
+      default: false,
+    })
+    .option('concurrency', {
+      type: 'number',
+      description: 'Number of files to index in parallel',
+      default: 4,
+    })
     .argv;
 
-  if (argv.sync) {
-    await syncDocs();
+  const corpora = selectCorpora(argv.corpus);
+  if ((argv.file || argv.section) && corpora.length > 1) {
+    throw new Error('--file and --section need --corpus when several corpora are registered');
   }
 
-  await createCollection();
+  if (argv.sync) {
+    await syncDocs(corpora);
+  }
 
-  if (argv.file) {
-    const filePath = path.join(DOCS_DIR, argv.file);
-    await processFile(filePath);
-  } else if (argv.section) {
-    const files = await glob(`${DOCS_DIR}/${argv.section}/**/*.{md,mdx}`);
-    for (const file of files) {
-      await processFile(file);
-    }
-  } else {
-    const files = await glob(`${DOCS_DIR}/**/*.{md,mdx}`);
-    for (const file of files) {
-      await processFile(file);
+  for (const corpus of corpora) {
+    const succeeded = await indexCorpus(corpus, argv);
+    if (!succeeded) {
+      process.exitCode = 1;
     }
   }
 }
 
-main().catch(console.error); 
\ No newline at end of file
+main().catch((error) => {
+  console.error(error);
+  // The webhook job queue reads the exit code
+  process.exitCode = 1;
+}); 
\ No newline at end of file
@@ -1,28 +1,38 @@
-import { execSync } from 'child_process';
+import { execFileSync } from 'child_process';
 import { existsSync } from 'fs';
-import path from 'path';
+import { Corpus, getCorpora, getCorpusDir } from '../src/shared/corpora';
 
-const DOCS_REPO = 'https://github.com/jito-foundation/jito-omnidocs.git';
-const DOCS_DIR = path.join(process.cwd(), 'docs');
+function syncCorpus(corpus: Corpus) {
+  if (!corpus.repo) {
+    console.log(`Corpus ${corpus.name} has no repository, using ${corpus.dir} as-is`);
+    return;
+  }
 
-function syncDocs() {
-  console.log('Syncing documentation repository...');
+  console.log(`Syncing ${corpus.name} documentation repository...`);
+  const docsDir = getCorpusDir(corpus);
 
   // Add token to the URL if available
   const token = process.env.TOKEN_GITHUB;
-  const repoUrl = token 
-    ? `https://${token}@github.com/jito-foundation/jito-omnidocs.git`
-    : DOCS_REPO;
+  const repoUrl = token
+    ? corpus.repo.replace('https://github.com/', `https://${token}@github.com/`)
+    : corpus.repo;
 
-  if (!existsSync(DOCS_DIR)) {
+  // Arguments are passed to git directly, never through a shell, since they come from corpora.json
+  if (!existsSync(docsDir)) {
     console.log('Cloning docs repository...');
-    execSync(`git clone ${repoUrl} ${DOCS_DIR}`);
+    execFileSync('git', ['clone', '--branch', corpus.branch, repoUrl, docsDir]);
   } else {
     console.log('Updating docs repository...');
-    execSync('git pull origin master', { cwd: DOCS_DIR });
+    execFileSync('git', ['pull', 'origin', corpus.branch], { cwd: docsDir });
   }
 
-  console.log('Documentation sync complete!');
+  console.log(`${corpus.name} documentation sync complete!`);
+}
+
+function syncDocs(corpora: Corpus[] = getCorpora()) {
+  for (const corpus of corpora) {
+    syncCorpus(corpus);
+  }
 }
 
 // Run if called directly
@@ -30,4 +40,4 @@ if (require.main === module) {
   syncDocs();
 }
 
-export { syncDocs }; 
\ No newline at end of file
+export { syncDocs };
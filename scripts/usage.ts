@@ -0,0 +1,53 @@
+import { config } from 'dotenv';
+import { existsSync } from 'fs';
+import yargs from 'yargs';
+import { hideBin } from 'yargs/helpers';
+import { UsageLedger, UsageRow, getDay, getLedgerPath } from '../src/shared/usageLedger';
+
+config();
+
+function printRows(rows: UsageRow[]) {
+  const header = ['Day', 'Client', 'Tool', 'Calls'];
+  const table = [header, ...rows.map((row) => [row.day, row.client, row.tool, String(row.calls)])];
+  const widths = header.map((_, i) => Math.max(...table.map((cells) => cells[i].length)));
+  for (const cells of table) {
+    console.log(cells.map((cell, i) => i === cells.length - 1 ? cell.padStart(widths[i]) : cell.padEnd(widths[i])).join('  '));
+  }
+}
+
+async function main() {
+  const argv = await yargs(hideBin(process.argv))
+    .option('day', {
+      type: 'string',
+      description: 'Only this UTC day (YYYY-MM-DD), or "today"',
+    })
+    .option('client', {
+      type: 'string',
+      description: 'Only this client, e.g. key:docs-widget or ip:203.0.113.7',
+    })
+    .option('json', {
+      type: 'boolean',
+      description: 'Print rows as JSON',
+      default: false,
+    })
+    .argv;
+
+  const file = getLedgerPath();
+  if (!existsSync(file)) {
+    console.error(`No usage ledger at ${file}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const day = argv.day === 'today' ? getDay() : argv.day;
+  const rows = new UsageLedger(file).query({ day, client: argv.client });
+  if (argv.json) {
+    console.log(JSON.stringify(rows, null, 2));
+  } else if (rows.length === 0) {
+    console.log('No usage recorded');
+  } else {
+    printRows(rows);
+  }
+}
+
+main().catch(console.error);
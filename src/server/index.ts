@@ -1,77 +1,61 @@
 import express, { Request, Response } from 'express';
-import { randomUUID } from "node:crypto";
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import cors from 'cors';
+import { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
-import { CallToolResult, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
-import { InMemoryEventStore } from '../shared/inMemoryEventStore.js';
-import { QdrantClient } from "@qdrant/js-client-rest";
-import { OpenAI } from "openai";
-import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { URL } from 'url';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { CachingEmbedder, createEmbedder } from '../shared/embedder.js';
+import { QUERY_RETRY } from '../shared/retry.js';
+import { SEARCH_FILTER_INPUTS, SEARCH_LIMIT_INPUT, SEARCH_MODES, getSearchCacheStats, searchDocs } from '../shared/search.js';
+import { createReranker } from '../shared/reranker.js';
+import { getCorpora, getCorpusByCollection, getCorpusStore, retrieveFromCorpora, selectCorpora } from '../shared/corpora.js';
+import { ANSWER_OUTPUT_SCHEMA, DOCUMENT_OUTPUT_SCHEMA, FETCH_OUTPUT_SCHEMA, SEARCH_OUTPUT_SCHEMA, formatAnswer, formatDocument, formatFetchResult, formatSearchResults, toDocResult, toFetchResult } from '../shared/results.js';
+import { CONTEXT_INPUT, expandContext, getDocument, getDocumentPageChunks } from '../shared/documents.js';
+import { registerDocResources } from '../shared/resources.js';
+import { registerDocPrompts } from '../shared/prompts.js';
+import { createChatModel } from '../shared/chatModel.js';
+import { getAuthInfo, getCorsOptions, isAuthEnabled, requireApiKey, scopeCorpora, scopeTools } from '../shared/auth.js';
+import { getTrustProxy, rateLimitToolCalls } from '../shared/rateLimit.js';
+import { checkSessionCapacity, createAdminRouter, registerSession, trackSessionActivity, unregisterSession } from '../shared/sessions.js';
+import { StreamableHttpSessions, createStreamableHttpRouter } from '../shared/streamableHttp.js';
+import { instrumentTool, metricsHandler, registerCacheMetrics } from '../shared/metrics.js';
+import { generateAnswer } from '../shared/answer.js';
+import { createHealthRouter } from '../shared/health.js';
+import { createWebhookRouter } from '../shared/webhooks.js';
+import { connectWithLogging, createLogger, redactQuery, requestLogging } from '../shared/logger.js';
 import dotenv from "dotenv";
-
-dotenv.config();
-
-const BASE_URL = "https://github.com/jito-foundation/jito-omnidocs/blob/master";
-
-// Define types for Qdrant payload
-interface DocMetadata {
-  path: string;
-  section: string;
-  title: string;
-  lastUpdated: string;
-}
-
-interface SearchResult {
-  content: string;
-  score: number;
-  metadata: DocMetadata;
-}
-
-interface DocPayload {
-  content: string;
-  metadata: DocMetadata;
-}
-
-interface QdrantSearchResult {
-  id: string | number;
-  version: number;
-  score: number;
-  payload?: DocPayload;
-  vector?: number[];
+import yargs from 'yargs';
+import { hideBin } from 'yargs/helpers';
+
+const argv = yargs(hideBin(process.argv))
+  .option('transport', {
+    type: 'string',
+    choices: ['stdio', 'http'] as const,
+    description: 'Serve over stdio (for clients that spawn the server) or HTTP',
+    default: (process.env.MCP_TRANSPORT || 'http') as 'stdio' | 'http',
+  })
+  .parseSync();
+
+// In stdio mode stdout carries the protocol stream, so all logging goes to stderr
+if (argv.transport === 'stdio') {
+  console.log = console.info = console.debug = console.error;
 }
 
-interface QdrantPoint {
-  id: string | number;
-  payload?: Record<string, unknown> | { [key: string]: unknown; } | null;
-  vector?: number[] | Record<string, unknown> | number[][] | null;
-  shard_key?: string | number;
-}
+dotenv.config();
 
-interface JinaRerankResult {
-  index: number;
-  relevance_score: number;
-}
-
-interface JinaRerankResponse {
-  model: string;
-  usage: {
-    total_tokens: number;
-  };
-  results: JinaRerankResult[];
-}
+const logger = createLogger('server');
 
 // Initialize clients
-const qdrant = new QdrantClient({
-  url: process.env.QDRANT_URL || "http://localhost:6333",
-  apiKey: process.env.QDRANT_API_KEY,
-});
+// Agents repeat queries constantly, so query embeddings are cached
+const embedder = new CachingEmbedder(createEmbedder(QUERY_RETRY));
+const reranker = createReranker();
+const chatModel = createChatModel();
+registerCacheMetrics({ embeddings: () => embedder.stats(), results: getSearchCacheStats });
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Passages given to the answer tool's model are merged with this many neighbouring chunks
+const ANSWER_CONTEXT_CHUNKS = 1;
 
 /**
  * This example server demonstrates backwards compatibility with both:
@@ -84,113 +68,62 @@ const openai = new OpenAI({
  * - /messages: The deprecated POST endpoint for older clients (POST to send messages)
  */
 
-const getServer = () => {
+// Each session gets its own server, limited to what the key that opened it
+// (`authInfo`) may use
+const getServer = (authInfo?: AuthInfo) => {
   const server = new McpServer({
     name: 'jito-docs-search-server',
     version: '1.0.0',
   }, { capabilities: { logging: {} } });
+  const tools: Record<string, RegisteredTool> = {};
 
   // Register Jito search tool
-  server.registerTool(
+  tools.search = server.registerTool(
     'search',
     {
       title: 'Jito Documentation Search',
-      description: 'Search through Jito\'s documentation using semantic search',
+      description: 'Search through Jito\'s documentation using semantic, keyword or hybrid search',
       inputSchema: {
         query: z.string().describe("The search query"),
-        limit: z.number().optional().default(10).describe("Maximum number of results to return"),
+        limit: SEARCH_LIMIT_INPUT,
+        corpus: z.string().optional().describe(`Documentation corpus to search (${getCorpora().map((c) => c.name).join(", ")}); searches all when omitted`),
+        mode: z.enum(SEARCH_MODES).optional().default("hybrid").describe("Retrieval mode: semantic (embeddings), keyword (exact terms such as account names, program IDs or CLI flags) or hybrid (both, fused)"),
+        ...SEARCH_FILTER_INPUTS,
+        context: CONTEXT_INPUT,
       },
+      outputSchema: SEARCH_OUTPUT_SCHEMA,
     },
-    async ({ query, limit = 5 }): Promise<CallToolResult> => {
+    instrumentTool('search', async ({ query, limit = 5, corpus, mode = "hybrid", context = 0, ...filters }, extra): Promise<CallToolResult> => {
       try {
-        console.log(`Searching for: "${query}" with limit: ${limit}`);
+        logger.info("Searching", { query: redactQuery(query), limit, mode, corpus, filters });
         
-        // Generate embedding for search query
-        const embedding = await openai.embeddings.create({
-          model: "text-embedding-3-small",
-          input: query,
+        // Search the vector store of every selected corpus, then rerank
+        const searchResults = await searchDocs(scopeCorpora(selectCorpora(corpus), extra.authInfo).map(getCorpusStore), embedder, reranker, {
+          query,
+          limit,
+          mode,
+          filters,
         });
 
-        // Search in Qdrant
-        const searchResults = await qdrant.search("jito_docs", {
-          vector: embedding.data[0].embedding,
-          limit: limit,
-          with_payload: true,
-          with_vector: false,
-        }) as QdrantSearchResult[];
-
-        // Format results
-        const results = searchResults.map((result) => ({
-          content: result.payload?.content || "",
-          score: result.score,
-          id: result.id,
-          metadata: result.payload?.metadata || {
-            path: "",
-            section: "",
-            title: "",
-            lastUpdated: "",
-          }
+        // Merge each hit with its neighbouring chunks when context was requested
+        const results = await Promise.all(searchResults.map(async (result) => {
+          const hitCorpus = getCorpusByCollection(result.collection);
+          return toDocResult(hitCorpus, result, context > 0 ? await expandContext(hitCorpus, result, context) : undefined);
         }));
 
-        // Use Jina AI's cloud reranking API if available
-        let reranked = results;
-        const jinaApiKey = process.env.JINA_API_KEY;
-        
-        if (jinaApiKey && results.length > 1) {
-          try {
-            const response = await fetch("https://api.jina.ai/v1/rerank", {
-              method: "POST",
-              headers: { 
-                "Content-Type": "application/json",
-                "Authorization": `Bearer ${jinaApiKey}`
-              },
-              body: JSON.stringify({
-                model: "jina-reranker-v1-turbo-en",
-                query,
-                documents: results.map((r) => r.content),
-                top_n: results.length,
-                return_documents: false
-              }),
-            });
-
-            if (response.ok) {
-              const jinaResponse: JinaRerankResponse = await response.json();
-              
-              // Map Jina AI results back to our results format
-              reranked = jinaResponse.results.map((jinaResult: JinaRerankResult) => ({
-                ...results[jinaResult.index],
-                rerankScore: jinaResult.relevance_score,
-              })).sort((a, b) => (b.rerankScore || 0) - (a.rerankScore || 0));
-              
-              console.log("Reranking successful");
-            } else {
-              console.warn(`Jina AI reranking failed: ${response.status} ${response.statusText}`);
-            }
-          } catch (rerankError) {
-            console.warn("Reranking failed, using original results:", rerankError instanceof Error ? rerankError.message : "Unknown error");
-          }
-        }
-
-        console.log(`Found ${reranked.length} results`);
-
-        // Return results in the standard format
-        const standardResults = reranked.map((r) => ({
-          id: String(r.id),
-          title: r.metadata.title || r.metadata.section || 'Untitled',
-          text: r.content.substring(0, 500) + (r.content.length > 500 ? '...' : ''), // Snippet for search results
-          url: `${BASE_URL}/${r.metadata.path}`,
-        }));
+        logger.info("Search complete", { results: results.map((result) => result.id) });
 
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(standardResults, null, 2),
+              text: formatSearchResults(results),
             },
           ],
+          structuredContent: { results },
         };
       } catch (error) {
-        console.error("Search error:", error);
+        logger.error("Search error", { error });
         return {
           content: [
             {
@@ -201,31 +134,30 @@ const getServer = () => {
           isError: true,
         };
       }
-    }
+    })
   );
 
   // Register fetch tool
-  server.registerTool(
+  tools.fetch = server.registerTool(
     'fetch',
     {
       title: 'Fetch Jito Documentation',
       description: 'Fetch the full content of a specific Jito documentation item by ID',
       inputSchema: {
         id: z.string().describe("The unique identifier for the document to fetch"),
+        corpus: z.string().optional().describe("Corpus the document belongs to, as returned by search; all corpora are tried when omitted"),
+        context: CONTEXT_INPUT,
       },
+      outputSchema: FETCH_OUTPUT_SCHEMA,
     },
-    async ({ id }): Promise<CallToolResult> => {
+    instrumentTool('fetch', async ({ id, corpus, context = 0 }, extra): Promise<CallToolResult> => {
       try {
-        console.log(`Fetching document with ID: ${id}`);
+        logger.info("Fetching document", { id, corpus });
         
-        // Get the specific document by ID from Qdrant
-        const result = await qdrant.retrieve("jito_docs", {
-          ids: [id],
-          with_payload: true,
-          with_vector: false,
-        });
+        // Get the specific document by ID from the vector store
+        const found = await retrieveFromCorpora(scopeCorpora(selectCorpora(corpus), extra.authInfo), id);
 
-        if (!result.length || !result[0]) {
+        if (!found) {
           return {
             content: [
               {
@@ -237,10 +169,7 @@ const getServer = () => {
           };
         }
 
-        const document = result[0] as QdrantSearchResult;
-        const payload = document.payload;
-
-        if (!payload) {
+        if (!found.point.payload) {
           return {
             content: [
               {
@@ -252,30 +181,25 @@ const getServer = () => {
           };
         }
 
-        const fetchResult = {
-          id: String(document.id),
-          title: payload.metadata?.title || payload.metadata?.section || 'Untitled',
-          text: payload.content || '',
-          url: `${BASE_URL}/${payload.metadata?.path || ''}`,
-          metadata: {
-            path: payload.metadata?.path || '',
-            section: payload.metadata?.section || '',
-            lastUpdated: payload.metadata?.lastUpdated || '',
-          },
-        };
+        const fetchResult = toFetchResult(
+          found.corpus,
+          found.point,
+          context > 0 ? await expandContext(found.corpus, found.point, context) : undefined
+        );
 
-        console.log(`Successfully fetched document: ${fetchResult.title}`);
+        logger.debug("Fetched document", { id, path: fetchResult.path });
 
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(fetchResult, null, 2),
+              text: formatFetchResult(fetchResult),
             },
           ],
+          structuredContent: fetchResult,
         };
       } catch (error) {
-        console.error("Fetch error:", error);
+        logger.error("Fetch error", { id, error });
         return {
           content: [
             {
@@ -286,195 +210,229 @@ const getServer = () => {
           isError: true,
         };
       }
-    }
+    })
   );
 
-  // Register resource for getting specific documentation sections
-  server.resource(
-    "jito-docs-section",
-    new ResourceTemplate("docs://{section}", { list: undefined }),
+  // Register tool for reading a whole document
+  tools.get_document = server.registerTool(
+    'get_document',
     {
-      title: "Jito Documentation Section",
-      description: "Access specific sections of Jito documentation",
-      mimeType: "text/markdown",
+      title: 'Get Jito Documentation Page',
+      description: `Reassemble a whole documentation page from its indexed chunks, in order. Identify the page by its path or by the ID of any of its chunks (as returned by search). Long pages are split into pages of ${getDocumentPageChunks()} chunks; request a range with startPage and endPage.`,
+      inputSchema: {
+        path: z.string().optional().describe("Document path relative to the corpus root, e.g. restaking/vaults.md"),
+        id: z.string().optional().describe("ID of any chunk of the document, as returned by search"),
+        corpus: z.string().optional().describe("Corpus the document belongs to; all corpora are tried when omitted"),
+        startPage: z.number().int().min(1).optional().describe("First page to return (1-based); defaults to the first page"),
+        endPage: z.number().int().min(1).optional().describe("Last page to return, inclusive; defaults to the last page"),
+      },
+      outputSchema: DOCUMENT_OUTPUT_SCHEMA,
     },
-    async (uri: URL) => {
+    instrumentTool('get_document', async ({ path, id, corpus, startPage, endPage }, extra): Promise<CallToolResult> => {
       try {
-        const pathSection = uri.pathname.split("/").pop() || "";
-        console.log(`Fetching documentation section: ${pathSection}`);
-
-        // Get documents from the section
-        const results = await qdrant.scroll("jito_docs", {
-          filter: {
-            must: [
+        if (!path === !id) {
+          return {
+            content: [
               {
-                key: "metadata.section",
-                match: { value: pathSection },
+                type: "text",
+                text: "Provide exactly one of path or id",
               },
             ],
-          },
-          with_payload: true,
-          limit: 10,
-        });
+            isError: true,
+          };
+        }
+        if (startPage !== undefined && endPage !== undefined && endPage < startPage) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "endPage must not be before startPage",
+              },
+            ],
+            isError: true,
+          };
+        }
 
-        const docs = ((results.points || []) as QdrantSearchResult[]).map((point) => ({
-          content: point.payload?.content || "",
-          metadata: point.payload?.metadata || {
-            path: "",
-            section: "",
-            title: "",
-            lastUpdated: "",
-          },
-        }));
+        logger.info("Getting document", { path, id, corpus, startPage, endPage });
+
+        const document = await getDocument(scopeCorpora(selectCorpora(corpus), extra.authInfo), { path, id }, { startPage, endPage });
+
+        if (!document) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Document ${path ? `"${path}"` : `containing chunk "${id}"`} not found`,
+              },
+            ],
+            isError: true,
+          };
+        }
 
-        console.log(`Found ${docs.length} documents in section ${pathSection}`);
+        logger.debug("Reassembled document", { path: document.path, startPage: document.startPage, endPage: document.endPage, totalPages: document.totalPages });
 
         return {
-          contents: [
+          content: [
             {
-              uri: uri.href,
-              text: JSON.stringify(docs, null, 2),
-              mimeType: "application/json",
+              type: "text",
+              text: formatDocument(document),
             },
           ],
+          structuredContent: { ...document },
         };
       } catch (error) {
-        const errorSection = uri.pathname.split("/").pop() || "";
-        console.error("Error fetching section:", errorSection, error);
-        throw new Error(`Failed to fetch section ${errorSection}: ${error instanceof Error ? error.message : "Unknown error"}`);
+        logger.error("Get document error", { path, id, error });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error getting document: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
       }
-    }
+    })
   );
 
+  // Register grounded answer tool, when a chat model is configured
+  if (chatModel) {
+    tools.answer = server.registerTool(
+      'answer',
+      {
+        title: 'Answer from Jito Documentation',
+        description: 'Answer a question from the documentation: retrieves relevant passages like search, then has a language model write an answer citing them as [1], [2], ... Reports progress while retrieving and generating.',
+        inputSchema: {
+          question: z.string().describe("The question to answer"),
+          limit: z.number().int().min(1).max(20).optional().default(6).describe("Number of passages to retrieve and cite from"),
+          corpus: z.string().optional().describe(`Documentation corpus to answer from (${getCorpora().map((c) => c.name).join(", ")}); uses all when omitted`),
+          mode: z.enum(SEARCH_MODES).optional().default("hybrid").describe("Retrieval mode, as for search"),
+          ...SEARCH_FILTER_INPUTS,
+        },
+        outputSchema: ANSWER_OUTPUT_SCHEMA,
+      },
+      instrumentTool('answer', async ({ question, limit = 6, corpus, mode = "hybrid", ...filters }, extra): Promise<CallToolResult> => {
+        const progressToken = extra._meta?.progressToken;
+        const reportProgress = async (progress: number, message: string) => {
+          if (progressToken !== undefined) {
+            await extra.sendNotification({
+              method: "notifications/progress",
+              params: { progressToken, progress, total: 2, message },
+            });
+          }
+        };
+
+        try {
+          logger.info("Answering", { question: redactQuery(question), provider: chatModel.provider, model: chatModel.model, limit, mode, corpus, filters });
+
+          await reportProgress(0, "Retrieving documentation");
+          const searchResults = await searchDocs(scopeCorpora(selectCorpora(corpus), extra.authInfo).map(getCorpusStore), embedder, reranker, {
+            query: question,
+            limit,
+            mode,
+            filters,
+          });
+          const sources = await Promise.all(searchResults.map(async (result) => {
+            const hitCorpus = getCorpusByCollection(result.collection);
+            return {
+              result: toDocResult(hitCorpus, result),
+              text: await expandContext(hitCorpus, result, ANSWER_CONTEXT_CHUNKS),
+            };
+          }));
+
+          await reportProgress(1, `Generating an answer from ${sources.length} passages`);
+          const answer = await generateAnswer(chatModel, question, sources);
+
+          await reportProgress(2, "Done");
+          logger.info("Answered", { sources: sources.map((source) => source.result.id), cited: answer.citations.map((citation) => citation.id) });
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: formatAnswer(answer),
+              },
+            ],
+            structuredContent: answer,
+          };
+        } catch (error) {
+          logger.error("Answer error", { error });
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error answering question: ${error instanceof Error ? error.message : "Unknown error"}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      })
+    );
+  }
+
+  // Register the browsable documentation tree (docs://{corpus}/{section} and docs://{corpus}/{section}/{path})
+  registerDocResources(server, authInfo);
+
+  // Register prompts that retrieve documentation and ask for a cited answer
+  registerDocPrompts(server, embedder, reranker, authInfo);
+
+  // Hide the tools the key may not call
+  scopeTools(tools, authInfo);
+
   return server;
 };
 
 // Create Express application
 const app = express();
+app.set('trust proxy', getTrustProxy());
+// GitHub push webhooks, ahead of the JSON parser since signatures cover the raw body
+app.use('/webhooks', createWebhookRouter());
 app.use(express.json());
+app.use(cors(getCorsOptions()));
+app.use(requestLogging);
+
+// Streamable HTTP sessions, restorable from the event store after a disconnect or restart
+const httpSessions = new StreamableHttpSessions(getServer);
+
+// Prometheus metrics
+app.get('/metrics', metricsHandler);
+
+// Liveness (/health, /health/live) and readiness (/health/ready) checks
+app.use('/health', createHealthRouter(embedder));
 
-// Store transports by session ID
-const transports: Record<string, StreamableHTTPServerTransport | SSEServerTransport> = {};
+// Store legacy SSE transports by session ID
+const transports: Record<string, SSEServerTransport> = {};
 
 //=============================================================================
 // STREAMABLE HTTP TRANSPORT (PROTOCOL VERSION 2025-03-26)
 //=============================================================================
 
 // Handle all MCP Streamable HTTP requests (GET, POST, DELETE) on a single endpoint
-app.all('/mcp', async (req: Request, res: Response) => {
-  console.log(`Received ${req.method} request to /mcp`);
-
-  try {
-    // Check for existing session ID
-    const sessionId = req.headers['mcp-session-id'] as string | undefined;
-    let transport: StreamableHTTPServerTransport;
-
-    if (sessionId && transports[sessionId]) {
-      // Check if the transport is of the correct type
-      const existingTransport = transports[sessionId];
-      if (existingTransport instanceof StreamableHTTPServerTransport) {
-        // Reuse existing transport
-        transport = existingTransport;
-      } else {
-        // Transport exists but is not a StreamableHTTPServerTransport (could be SSEServerTransport)
-        res.status(400).json({
-          jsonrpc: '2.0',
-          error: {
-            code: -32000,
-            message: 'Bad Request: Session exists but uses a different transport protocol',
-          },
-          id: null,
-        });
-        return;
-      }
-    } else if (!sessionId && req.method === 'POST' && isInitializeRequest(req.body)) {
-      const eventStore = new InMemoryEventStore();
-      transport = new StreamableHTTPServerTransport({
-        sessionIdGenerator: () => randomUUID(),
-        eventStore, // Enable resumability
-        onsessioninitialized: (sessionId) => {
-          // Store the transport by session ID when session is initialized
-          console.log(`StreamableHTTP session initialized with ID: ${sessionId}`);
-          transports[sessionId] = transport;
-        }
-      });
-
-      // Set up onclose handler to clean up transport when closed
-      transport.onclose = () => {
-        const sid = transport.sessionId;
-        if (sid && transports[sid]) {
-          console.log(`Transport closed for session ${sid}, removing from transports map`);
-          delete transports[sid];
-        }
-      };
-
-      // Connect the transport to the MCP server
-      const server = getServer();
-      await server.connect(transport);
-    } else {
-      // Invalid request - no session ID or not initialization request
-      res.status(400).json({
-        jsonrpc: '2.0',
-        error: {
-          code: -32000,
-          message: 'Bad Request: No valid session ID provided',
-        },
-        id: null,
-      });
-      return;
-    }
-
-    // Handle the request with the transport
-    await transport.handleRequest(req, res, req.body);
-  } catch (error) {
-    console.error('Error handling MCP request:', error);
-    if (!res.headersSent) {
-      res.status(500).json({
-        jsonrpc: '2.0',
-        error: {
-          code: -32603,
-          message: 'Internal server error',
-        },
-        id: null,
-      });
-    }
-  }
-});
+app.use('/mcp', createStreamableHttpRouter(httpSessions));
 
 //=============================================================================
 // DEPRECATED HTTP+SSE TRANSPORT (PROTOCOL VERSION 2024-11-05)
 //=============================================================================
 
-app.get('/sse', async (req: Request, res: Response) => {
-  console.log('Received GET request to /sse (deprecated SSE transport)');
+app.get('/sse', requireApiKey, async (req: Request, res: Response) => {
+  if (!checkSessionCapacity(res)) {
+    return;
+  }
   const transport = new SSEServerTransport('/messages', res);
   transports[transport.sessionId] = transport;
+  registerSession(transport.sessionId, 'sse', transport, req);
   res.on("close", () => {
     delete transports[transport.sessionId];
+    unregisterSession(transport.sessionId);
   });
-  const server = getServer();
-  await server.connect(transport);
+  const server = getServer(getAuthInfo(req));
+  await connectWithLogging(server, transport);
 });
 
-app.post("/messages", async (req: Request, res: Response) => {
+app.post("/messages", requireApiKey, rateLimitToolCalls, trackSessionActivity, async (req: Request, res: Response) => {
   const sessionId = req.query.sessionId as string;
-  let transport: SSEServerTransport;
-  const existingTransport = transports[sessionId];
-  if (existingTransport instanceof SSEServerTransport) {
-    // Reuse existing transport
-    transport = existingTransport;
-  } else {
-    // Transport exists but is not a SSEServerTransport (could be StreamableHTTPServerTransport)
-    res.status(400).json({
-      jsonrpc: '2.0',
-      error: {
-        code: -32000,
-        message: 'Bad Request: Session exists but uses a different transport protocol',
-      },
-      id: null,
-    });
-    return;
-  }
+  const transport = transports[sessionId];
   if (transport) {
     await transport.handlePostMessage(req, res, req.body);
   } else {
@@ -482,47 +440,74 @@ app.post("/messages", async (req: Request, res: Response) => {
   }
 });
 
+//=============================================================================
+// ADMINISTRATION (SESSIONS), FOR API KEYS WITH ADMIN ACCESS
+//=============================================================================
+
+app.use('/admin', createAdminRouter());
+
+//=============================================================================
+// STDIO TRANSPORT (FOR CLIENTS THAT SPAWN THE SERVER AS A LOCAL PROCESS)
+//=============================================================================
+
+const startStdioServer = async () => {
+  const transport = new StdioServerTransport();
+  transport.onclose = () => {
+    logger.info('stdio transport closed, exiting');
+    process.exit(0);
+  };
+
+  const server = getServer();
+  await connectWithLogging(server, transport);
+  logger.info('Jito docs MCP server running on stdio');
+};
 
 // Start the server
-const PORT = process.env.PORT || 3000;
-app.listen(PORT, () => {
-  console.log(`Backwards compatible MCP server listening on port ${PORT}`);
-  console.log(`
-==============================================
-SUPPORTED TRANSPORT OPTIONS:
-
-1. Streamable Http(Protocol version: 2025-03-26)
-   Endpoint: /mcp
-   Methods: GET, POST, DELETE
-   Usage: 
-     - Initialize with POST to /mcp
-     - Establish SSE stream with GET to /mcp
-     - Send requests with POST to /mcp
-     - Terminate session with DELETE to /mcp
-
-2. Http + SSE (Protocol version: 2024-11-05)
-   Endpoints: /sse (GET) and /messages (POST)
-   Usage:
-     - Establish SSE stream with GET to /sse
-     - Send requests with POST to /messages?sessionId=<id>
-==============================================
-`);
-});
+const startHttpServer = () => {
+  const PORT = process.env.PORT || 3000;
+  app.listen(PORT, () => {
+    logger.info(`Backwards compatible MCP server listening on port ${PORT}`, {
+      port: Number(PORT),
+      transports: {
+        // Protocol version 2025-03-26: initialize and send requests with POST, open an SSE stream with GET, terminate with DELETE
+        'streamable-http': { endpoint: '/mcp', methods: ['GET', 'POST', 'DELETE'] },
+        // Protocol version 2024-11-05 (deprecated): open the SSE stream with GET /sse, send requests with POST /messages?sessionId=<id>
+        sse: { endpoints: ['/sse', '/messages'] },
+      },
+    });
+    if (!isAuthEnabled()) {
+      logger.warning('No API keys configured (API_KEYS or API_KEYS_FILE); the MCP endpoints are open to anyone who can reach them');
+    }
+  });
+};
 
-// Handle server shutdown
-process.on('SIGINT', async () => {
-  console.log('Shutting down server...');
+if (argv.transport === 'stdio') {
+  startStdioServer().catch((error) => {
+    logger.error('Failed to start stdio server', { error });
+    process.exit(1);
+  });
+} else {
+  startHttpServer();
+}
 
-  // Close all active transports to properly clean up resources
+// Handle server shutdown; exiting also saves the usage ledger
+const shutdown = async () => {
+  logger.info('Shutting down server...');
+
+  // Close all active transports to properly clean up resources; Streamable
+  // HTTP sessions stay in the event store, to be restored after a restart
+  await httpSessions.closeAll();
   for (const sessionId in transports) {
     try {
-      console.log(`Closing transport for session ${sessionId}`);
+      logger.info('Closing transport', { sessionId });
       await transports[sessionId].close();
       delete transports[sessionId];
     } catch (error) {
-      console.error(`Error closing transport for session ${sessionId}:`, error);
+      logger.error('Error closing transport', { sessionId, error });
     }
   }
-  console.log('Server shutdown complete');
+  logger.info('Server shutdown complete');
   process.exit(0);
-});
\ No newline at end of file
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { ChatMessage, ChatModel } from './chatModel.js';
+import { AnswerOutput, Citation, DocResult } from './results.js';
+
+export interface AnswerSource {
+  result: DocResult;
+  /** Passage given to the model: the hit merged with its neighbouring chunks */
+  text: string;
+}
+
+const SYSTEM_PROMPT = `You answer questions about technical documentation using only the numbered sources provided.
+- Cite every claim inline with the number of its source in square brackets, e.g. [2]; cite several as [1][3].
+- Never cite a number that is not among the sources, and do not add a sources list; one is appended for you.
+- If the sources do not answer the question, say so plainly instead of guessing.
+- Answer in Markdown. Keep commands, addresses and code exactly as the sources give them.`;
+
+function buildMessages(question: string, sources: AnswerSource[]): ChatMessage[] {
+  const context = sources.map(({ result, text }, i) =>
+    `[${i + 1}] ${result.title} (${result.url})\n${text}`
+  ).join('\n\n---\n\n');
+
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: `Sources:\n\n${context}\n\nQuestion: ${question}` },
+  ];
+}
+
+/**
+ * Returns the sources the answer cites, numbered as in the answer. Markers that
+ * point past the end of the source list are ignored.
+ */
+function getCitations(answer: string, sources: AnswerSource[]): Citation[] {
+  const cited = new Set<number>();
+  for (const [, number] of answer.matchAll(/\[(\d+)\]/g)) {
+    const n = Number(number);
+    if (n >= 1 && n <= sources.length) {
+      cited.add(n);
+    }
+  }
+  return [...cited].sort((a, b) => a - b).map((n) => ({ number: n, ...sources[n - 1].result }));
+}
+
+/**
+ * Answers a question from retrieved sources, citing them by number
+ */
+export async function generateAnswer(chatModel: ChatModel, question: string, sources: AnswerSource[]): Promise<AnswerOutput> {
+  if (sources.length === 0) {
+    return { answer: 'The documentation does not appear to cover this question.', citations: [] };
+  }
+
+  const answer = await chatModel.complete(buildMessages(question, sources));
+  return { answer, citations: getCitations(answer, sources) };
+}
@@ -0,0 +1,342 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import type { NextFunction, Request, Response } from 'express';
+import type { CorsOptions } from 'cors';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Corpus, getCorpora } from './corpora.js';
+import { createLogger, setLogContext } from './logger.js';
+
+/**
+ * An API key and what it may do. Omitting `tools` or `corpora` allows all of them.
+ */
+export interface ApiKey {
+  /** Identifies the key in logs, e.g. the team or client using it */
+  name: string;
+  /** The key itself; or give `keySha256` to keep plaintext keys out of the file */
+  key?: string;
+  keySha256?: string;
+  tools?: string[];
+  corpora?: string[];
+  /** Overrides the server-wide rate limit and daily quota for this key */
+  rateLimit?: RateLimit;
+  /** Allows the /admin endpoints */
+  admin?: boolean;
+}
+
+/**
+ * Tool calls allowed per minute, in a burst, and per UTC day; 0 means unlimited
+ */
+export interface RateLimit {
+  perMinute?: number;
+  burst?: number;
+  dailyQuota?: number;
+}
+
+export interface KeyScope {
+  name: string;
+  tools?: string[];
+  corpora?: string[];
+  rateLimit?: RateLimit;
+  admin?: boolean;
+}
+
+// JSON-RPC error codes for rejected requests; the HTTP status carries the same meaning
+export const UNAUTHORIZED_ERROR_CODE = -32001;
+export const FORBIDDEN_ERROR_CODE = -32003;
+
+// Prompts run this tool's retrieval server-side, so only keys that may call it may get them
+export const PROMPT_TOOL = 'search';
+
+const logger = createLogger('auth');
+
+/**
+ * Thrown when an authenticated key reaches beyond its scope
+ */
+export class ForbiddenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+let apiKeys: ApiKey[] | undefined;
+
+/**
+ * Loads API keys from API_KEYS (a JSON array of keys, or comma-separated plain
+ * keys with full access) or else from API_KEYS_FILE (default `./api-keys.json`).
+ * With no keys configured, authentication is disabled.
+ */
+export function getApiKeys(): ApiKey[] {
+  if (apiKeys) {
+    return apiKeys;
+  }
+
+  const fromEnv = process.env.API_KEYS?.trim();
+  const file = path.resolve(process.cwd(), process.env.API_KEYS_FILE || 'api-keys.json');
+  let keys: ApiKey[] = [];
+  if (fromEnv) {
+    keys = fromEnv.startsWith('[')
+      ? JSON.parse(fromEnv) as ApiKey[]
+      : fromEnv.split(',').map((key, i) => ({ name: `key-${i + 1}`, key: key.trim() }));
+  } else if (existsSync(file)) {
+    keys = JSON.parse(readFileSync(file, 'utf-8')) as ApiKey[];
+  } else if (process.env.API_KEYS_FILE) {
+    throw new Error(`API_KEYS_FILE ${file} does not exist`);
+  }
+
+  for (const key of keys) {
+    if (!key.name || (!key.key && !key.keySha256)) {
+      throw new Error('Every API key needs a name and a key or keySha256');
+    }
+  }
+  apiKeys = keys;
+  return keys;
+}
+
+export function isAuthEnabled(): boolean {
+  return getApiKeys().length > 0;
+}
+
+function findKey(token: string): ApiKey | undefined {
+  const digest = Buffer.from(sha256(token), 'hex');
+  // Compare digests in constant time so response timing reveals nothing about keys
+  return getApiKeys().find((apiKey) => {
+    const expected = Buffer.from(apiKey.keySha256 || sha256(apiKey.key!), 'hex');
+    return expected.length === digest.length && timingSafeEqual(expected, digest);
+  });
+}
+
+export function getScope(authInfo: AuthInfo | undefined): KeyScope | undefined {
+  return authInfo?.extra?.apiKey as KeyScope | undefined;
+}
+
+/**
+ * Sends a JSON-RPC error for a request rejected before it reached the MCP server
+ */
+export function sendJsonRpcError(res: Response, status: number, code: number, message: string, id: string | number | null = null, data?: unknown): void {
+  if (status === 401) {
+    res.setHeader('WWW-Authenticate', 'Bearer realm="mcp"');
+  }
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code, message, data },
+    id,
+  });
+}
+
+function getRequestToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (header?.toLowerCase().startsWith('bearer ')) {
+    return header.slice(7).trim();
+  }
+  return (req.headers['x-api-key'] as string | undefined)?.trim();
+}
+
+// Sessions are bound to the key that created them so another key cannot reuse them
+const sessionOwners = new Map<string, string>();
+
+/**
+ * The tools/call requests in a JSON-RPC message or batch
+ */
+export function getToolCalls(req: Request): { tool: string, id: string | number | null }[] {
+  const messages = Array.isArray(req.body) ? req.body : req.body ? [req.body] : [];
+  return messages
+    .filter((message) => message?.method === 'tools/call' && typeof message.params?.name === 'string')
+    .map((message) => ({ tool: message.params.name as string, id: message.id ?? null }));
+}
+
+export function getSessionId(req: Request): string | undefined {
+  return (req.headers['mcp-session-id'] as string | undefined) || (req.query.sessionId as string | undefined);
+}
+
+/**
+ * The prompts/get requests in a JSON-RPC message or batch
+ */
+function getPromptRequests(req: Request): { prompt: string, id: string | number | null }[] {
+  const messages = Array.isArray(req.body) ? req.body : req.body ? [req.body] : [];
+  return messages
+    .filter((message) => message?.method === 'prompts/get')
+    .map((message) => ({ prompt: String(message.params?.name), id: message.id ?? null }));
+}
+
+/**
+ * The calls a request is rate-limited and charged for: its tool calls, and a
+ * call of PROMPT_TOOL for each prompts/get, since every prompt runs its
+ * retrieval server-side
+ */
+export function getMeteredCalls(req: Request): { tool: string, id: string | number | null }[] {
+  return [...getToolCalls(req), ...getPromptRequests(req).map(({ id }) => ({ tool: PROMPT_TOOL, id }))];
+}
+
+/**
+ * Auth info requireApiKey attached to a request, or undefined without authentication
+ */
+export function getAuthInfo(req: Request): AuthInfo | undefined {
+  return (req as Request & { auth?: AuthInfo }).auth;
+}
+
+/**
+ * Name of the API key a request was made with, or undefined without authentication
+ */
+export function getKeyName(req: Request): string | undefined {
+  return getScope(getAuthInfo(req))?.name;
+}
+
+/**
+ * Records which key opened a session; call once the session ID is known
+ */
+export function bindSession(sessionId: string, req: Request): void {
+  const owner = getKeyName(req);
+  if (owner) {
+    sessionOwners.set(sessionId, owner);
+  }
+}
+
+export function unbindSession(sessionId: string): void {
+  sessionOwners.delete(sessionId);
+}
+
+/**
+ * Express middleware for the MCP endpoints: requires `Authorization: Bearer
+ * <key>` (or `X-API-Key`), attaches the key's scope as the request's auth info,
+ * which the SDK passes to tool, prompt and resource handlers, and rejects
+ * calls to tools outside the key's scope. Does nothing when no keys are configured.
+ */
+export function requireApiKey(req: Request, res: Response, next: NextFunction): void {
+  if (!isAuthEnabled()) {
+    next();
+    return;
+  }
+
+  const token = getRequestToken(req);
+  const apiKey = token ? findKey(token) : undefined;
+  if (!token || !apiKey) {
+    logger.notice('Rejected request without a valid API key', { method: req.method, path: req.path, reason: token ? 'invalid' : 'missing' });
+    sendJsonRpcError(res, 401, UNAUTHORIZED_ERROR_CODE, token ? 'Unauthorized: invalid API key' : 'Unauthorized: missing bearer token');
+    return;
+  }
+
+  const sessionId = getSessionId(req);
+  const owner = sessionId && sessionOwners.get(sessionId);
+  if (owner && owner !== apiKey.name) {
+    sendJsonRpcError(res, 403, FORBIDDEN_ERROR_CODE, 'Forbidden: session belongs to another API key');
+    return;
+  }
+
+  setLogContext({ client: `key:${apiKey.name}` });
+  const scope: KeyScope = { name: apiKey.name, tools: apiKey.tools, corpora: apiKey.corpora, rateLimit: apiKey.rateLimit, admin: apiKey.admin };
+  (req as Request & { auth?: AuthInfo }).auth = {
+    token,
+    clientId: apiKey.name,
+    scopes: [],
+    extra: { apiKey: scope },
+  };
+
+  // Tool calls are checked here so disallowed tools never run
+  for (const { tool, id } of getToolCalls(req)) {
+    if (scope.tools && !scope.tools.includes(tool)) {
+      logger.notice('Rejected call to a tool outside the key\'s scope', { tool });
+      sendJsonRpcError(res, 403, FORBIDDEN_ERROR_CODE, `Forbidden: API key may not call tool "${tool}"`, id);
+      return;
+    }
+  }
+  for (const { prompt, id } of getPromptRequests(req)) {
+    if (scope.tools && !scope.tools.includes(PROMPT_TOOL)) {
+      logger.notice('Rejected prompt for a key that may not search', { prompt });
+      sendJsonRpcError(res, 403, FORBIDDEN_ERROR_CODE, `Forbidden: API key may not get prompt "${prompt}", which requires tool "${PROMPT_TOOL}"`, id);
+      return;
+    }
+  }
+
+  next();
+}
+
+/**
+ * Express middleware for the admin endpoints, after requireApiKey: only keys
+ * with `admin: true` pass. With authentication disabled nobody does, so the
+ * admin endpoints are never open.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  const scope = getScope((req as Request & { auth?: AuthInfo }).auth);
+  if (!scope?.admin) {
+    logger.notice('Rejected admin request', { method: req.method, path: req.path, reason: scope ? 'not an admin key' : 'no API keys configured' });
+    res.status(403).json({
+      error: 'Forbidden',
+      message: 'Admin endpoints require an API key with admin access',
+    });
+    return;
+  }
+  next();
+}
+
+/**
+ * Restricts corpora to those the caller's key may read. Throws ForbiddenError
+ * when none remain, e.g. when a corpus outside the key's scope was requested.
+ * Requests without auth info (stdio, or auth disabled) may read everything.
+ */
+export function scopeCorpora(corpora: Corpus[], authInfo: AuthInfo | undefined): Corpus[] {
+  const allowed = getScope(authInfo)?.corpora;
+  if (!allowed) {
+    return corpora;
+  }
+
+  const scoped = corpora.filter((corpus) => allowed.includes(corpus.name));
+  if (scoped.length === 0) {
+    throw new ForbiddenError(`API key may not read corpus ${corpora.map((c) => `"${c.name}"`).join(', ')}`);
+  }
+  return scoped;
+}
+
+/**
+ * The configured corpora a key may read, for listings and argument completion;
+ * unlike scopeCorpora, none is not an error
+ */
+export function getReadableCorpora(authInfo: AuthInfo | undefined): Corpus[] {
+  const allowed = getScope(authInfo)?.corpora;
+  return allowed ? getCorpora().filter((corpus) => allowed.includes(corpus.name)) : getCorpora();
+}
+
+/**
+ * Whether a key may call a tool; requests without auth info may call any
+ */
+export function canCallTool(authInfo: AuthInfo | undefined, tool: string): boolean {
+  const allowed = getScope(authInfo)?.tools;
+  return !allowed || allowed.includes(tool);
+}
+
+/**
+ * Disables the tools a session's key may not call, which hides them from
+ * tools/list. requireApiKey still rejects calls to them before they arrive.
+ */
+export function scopeTools(tools: Record<string, RegisteredTool>, authInfo: AuthInfo | undefined): void {
+  for (const [name, tool] of Object.entries(tools)) {
+    if (!canCallTool(authInfo, name)) {
+      tool.disable();
+    }
+  }
+}
+
+/**
+ * CORS options from CORS_ORIGINS, a comma-separated allowlist of origins (`*`
+ * allows any). By default only pages served from localhost may call the server.
+ */
+export function getCorsOptions(): CorsOptions {
+  const origins = (process.env.CORS_ORIGINS || '').split(',').map((origin) => origin.trim()).filter(Boolean);
+  const isLocal = (origin: string) => /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/.test(origin);
+
+  return {
+    origin: (origin, callback) => {
+      // Requests without an Origin header do not come from a browser
+      callback(null, !origin || origins.includes('*') || (origins.length > 0 ? origins.includes(origin) : isLocal(origin)));
+    },
+    exposedHeaders: ['mcp-session-id'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'mcp-session-id', 'mcp-protocol-version', 'last-event-id'],
+    credentials: true,
+  };
+}
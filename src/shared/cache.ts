@@ -0,0 +1,64 @@
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  size: number;
+}
+
+/**
+ * Least-recently-used cache with an optional time-to-live, counting hits and misses
+ */
+export class LruCache<V> {
+  private entries = new Map<string, { value: V, expiresAt: number }>();
+  private hits = 0;
+  private misses = 0;
+
+  /**
+   * @param maxEntries entries kept before the least recently used is evicted; 0 disables the cache
+   * @param ttlMs how long an entry stays valid; 0 for no expiry
+   */
+  constructor(private maxEntries: number, private ttlMs: number = 0) {}
+
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt < Date.now()) {
+      if (entry) {
+        this.entries.delete(key);
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    // Re-insert so the entry becomes the most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  set(key: string, value: V): void {
+    if (this.maxEntries <= 0) {
+      return;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: this.ttlMs > 0 ? Date.now() + this.ttlMs : Infinity });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  stats(): CacheStats {
+    return { hits: this.hits, misses: this.misses, size: this.entries.size };
+  }
+}
+
+/**
+ * Normalizes a query for use in cache keys, so queries differing only in
+ * whitespace or Unicode form share an entry
+ */
+export function normalizeQuery(query: string): string {
+  return query.normalize('NFKC').trim().replace(/\s+/g, ' ');
+}
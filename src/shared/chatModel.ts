@@ -0,0 +1,78 @@
+import { OpenAI } from 'openai';
+import { QUERY_RETRY, withRetry } from './retry.js';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Generates text from a conversation through a chat-completion API
+ */
+export interface ChatModel {
+  readonly provider: string;
+  readonly model: string;
+  complete(messages: ChatMessage[]): Promise<string>;
+}
+
+export const DEFAULT_CHAT_MODEL = 'gpt-4o-mini';
+
+/**
+ * Chat completions through the OpenAI API, or any server implementing it
+ * (Ollama, vLLM, llama.cpp, LM Studio) when given a base URL. Completions
+ * answer a waiting client, so they are retried as briefly as queries.
+ */
+export class OpenAIChatModel implements ChatModel {
+  private client: OpenAI;
+
+  constructor(
+    readonly model: string = DEFAULT_CHAT_MODEL,
+    readonly provider: string = 'openai',
+    options: { apiKey?: string, baseURL?: string } = {}
+  ) {
+    // Retries are handled by withRetry, which also honours rate-limit reset headers
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL, maxRetries: 0 });
+  }
+
+  async complete(messages: ChatMessage[]): Promise<string> {
+    const response = await withRetry(() => this.client.chat.completions.create({
+      model: this.model,
+      messages,
+      temperature: 0,
+    }), { ...QUERY_RETRY, label: `${this.provider} chat completion` });
+
+    return response.choices[0]?.message?.content?.trim() || '';
+  }
+}
+
+/**
+ * Creates the chat model selected by CHAT_PROVIDER: `openai` (needs
+ * OPENAI_API_KEY), `local` (an OpenAI-compatible server at CHAT_BASE_URL) or
+ * `none`. CHAT_MODEL picks the model. Defaults to OpenAI when OPENAI_API_KEY
+ * is set and to no chat model otherwise.
+ */
+export function createChatModel(): ChatModel | undefined {
+  const openaiApiKey = process.env.OPENAI_API_KEY;
+  const provider = (process.env.CHAT_PROVIDER || (openaiApiKey ? 'openai' : 'none')).toLowerCase();
+  const model = process.env.CHAT_MODEL;
+
+  switch (provider) {
+    case 'openai':
+      if (!openaiApiKey) {
+        throw new Error('CHAT_PROVIDER=openai requires OPENAI_API_KEY');
+      }
+      return new OpenAIChatModel(model || DEFAULT_CHAT_MODEL, 'openai', { apiKey: openaiApiKey });
+    case 'local': {
+      const baseURL = process.env.CHAT_BASE_URL;
+      if (!baseURL || !model) {
+        throw new Error('CHAT_PROVIDER=local requires CHAT_BASE_URL and CHAT_MODEL');
+      }
+      // Local servers usually ignore the key, but the client insists on one
+      return new OpenAIChatModel(model, 'local', { apiKey: process.env.CHAT_API_KEY || 'local', baseURL });
+    }
+    case 'none':
+      return undefined;
+    default:
+      throw new Error(`Unknown CHAT_PROVIDER "${provider}" (expected "openai", "local" or "none")`);
+  }
+}
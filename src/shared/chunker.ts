@@ -0,0 +1,182 @@
+import { marked, Token } from 'marked';
+
+export const CHUNK_SIZE = 1000; // characters
+export const CHUNK_OVERLAP = 200;
+
+export interface MarkdownChunk {
+  content: string;
+  /** Heading path leading to the chunk, outermost first */
+  headings: string[];
+}
+
+interface Block {
+  text: string;
+  /** Code blocks, tables and other blocks that must never be split */
+  atomic: boolean;
+}
+
+const ATOMIC_TYPES = new Set(['code', 'table', 'blockquote', 'html']);
+
+/**
+ * Joins a heading path into the breadcrumb stored with each chunk
+ */
+export function formatBreadcrumb(headings: string[]): string {
+  return headings.join(' > ');
+}
+
+/**
+ * Joins consecutive chunks of one document back into Markdown, dropping the
+ * trailing prose each chunk repeats from the one before it
+ */
+export function mergeChunks(contents: string[]): string {
+  let merged = '';
+  for (const content of contents) {
+    merged = merged ? `${merged}\n\n${content.slice(overlapLength(merged, content))}`.trimEnd() : content;
+  }
+  return merged;
+}
+
+/**
+ * Returns how many leading characters of `next` repeat the end of `previous`.
+ * Overlap is made of whole blocks, so it always ends where a block does.
+ */
+function overlapLength(previous: string, next: string): number {
+  for (let k = Math.min(next.length, previous.length, CHUNK_OVERLAP); k > 0; k--) {
+    if ((k === next.length || next.startsWith('\n\n', k)) && previous.endsWith(next.slice(0, k))) {
+      return k === next.length ? k : k + 2;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Splits prose into pieces no longer than `size`, preferring sentence boundaries
+ */
+function splitProse(text: string, size: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of text.split(/(?<=[.!?])\s+/)) {
+    if (current && current.length + sentence.length + 1 > size) {
+      pieces.push(current);
+      current = '';
+    }
+    if (sentence.length > size) {
+      for (let i = 0; i < sentence.length; i += size) {
+        pieces.push(sentence.slice(i, i + size));
+      }
+      continue;
+    }
+    current = current ? `${current} ${sentence}` : sentence;
+  }
+
+  if (current) {
+    pieces.push(current);
+  }
+  return pieces;
+}
+
+/**
+ * Returns the trailing sentences of a block, up to `size` characters, used to
+ * seed the next chunk. Atomic blocks are never cut, so they yield no overlap.
+ */
+function overlapTail(block: Block | undefined, size: number): string {
+  if (!block || block.atomic || size <= 0) {
+    return '';
+  }
+
+  const sentences = block.text.split(/(?<=[.!?])\s+/);
+  let tail = '';
+  for (let i = sentences.length - 1; i >= 0; i--) {
+    const candidate = tail ? `${sentences[i]} ${tail}` : sentences[i];
+    if (candidate.length > size) {
+      break;
+    }
+    tail = candidate;
+  }
+  // Never repeat the entire block; that is not overlap but duplication
+  return tail === block.text ? '' : tail;
+}
+
+/**
+ * Splits Markdown into chunks along its heading hierarchy.
+ *
+ * Every heading starts a new chunk, and each chunk records the path of headings
+ * it sits under. Within a section, blocks are packed up to `size` characters;
+ * when a section overflows, the next chunk repeats up to `overlap` characters of
+ * trailing prose. Code blocks, tables, blockquotes and HTML are kept whole, even
+ * when that makes a chunk longer than `size`.
+ */
+export function chunkMarkdown(markdown: string, size: number = CHUNK_SIZE, overlap: number = CHUNK_OVERLAP): MarkdownChunk[] {
+  const chunks: MarkdownChunk[] = [];
+  const headings: string[] = [];
+  let blocks: Block[] = [];
+  let length = 0;
+  let hasBody = false;
+
+  const flush = () => {
+    if (hasBody) {
+      chunks.push({
+        content: blocks.map((b) => b.text).join('\n\n'),
+        headings: [...headings],
+      });
+    }
+    blocks = [];
+    length = 0;
+    hasBody = false;
+  };
+
+  const append = (block: Block) => {
+    if (hasBody && length + block.text.length > size) {
+      const tail = overlapTail(blocks[blocks.length - 1], overlap);
+      flush();
+      if (tail) {
+        blocks.push({ text: tail, atomic: false });
+        length = tail.length;
+      }
+    }
+    blocks.push(block);
+    length += block.text.length + 2;
+    hasBody = true;
+  };
+
+  for (const token of marked.lexer(markdown) as Token[]) {
+    if (token.type === 'space' || token.type === 'hr' || token.type === 'def') {
+      continue;
+    }
+
+    if (token.type === 'heading') {
+      // A heading closes the previous section unless that section has no body yet
+      flush();
+      headings.splice(token.depth - 1);
+      while (headings.length < token.depth - 1) {
+        headings.push('');
+      }
+      headings.push(token.text.trim());
+      // Keep the heading line itself at the top of the chunk it opens
+      blocks.push({ text: token.raw.trim(), atomic: true });
+      length = blocks[0].text.length + 2;
+      continue;
+    }
+
+    const text = token.raw.trim();
+    if (!text) {
+      continue;
+    }
+
+    // Lists and paragraphs can embed fenced code, which must not be split either
+    const atomic = ATOMIC_TYPES.has(token.type) || text.includes('```');
+    if (atomic || text.length <= size) {
+      append({ text, atomic });
+    } else {
+      for (const piece of splitProse(text, size)) {
+        append({ text: piece, atomic: false });
+      }
+    }
+  }
+
+  flush();
+
+  // Headings skipped in the hierarchy (e.g. h1 followed by h3) leave gaps
+  return chunks.map((chunk) => ({ ...chunk, headings: chunk.headings.filter(Boolean) }));
+}
@@ -0,0 +1,170 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { StoredPoint, VectorStore, createVectorStore } from './vectorStore.js';
+import { getIndexedStores } from './search.js';
+
+/**
+ * A documentation repository indexed into its own collection
+ */
+export interface Corpus {
+  /** Short identifier used by the `corpus` tool argument, e.g. "jito" */
+  name: string;
+  /** Human-readable title used in tool descriptions */
+  title: string;
+  /** Git URL to clone; omit for a plain local directory that is never synced */
+  repo?: string;
+  branch: string;
+  /** Files to index, relative to the corpus directory */
+  glob: string;
+  collection: string;
+  /** Checkout directory, relative to the working directory (default `corpora/<name>`) */
+  dir: string;
+  /** Link to a document; `{branch}` and `{path}` are substituted */
+  sourceUrlTemplate: string;
+}
+
+const DEFAULT_CORPORA: Corpus[] = [
+  {
+    name: 'jito',
+    title: 'Jito Documentation',
+    repo: 'https://github.com/jito-foundation/jito-omnidocs.git',
+    branch: 'master',
+    glob: '**/*.{md,mdx}',
+    collection: 'jito_docs',
+    dir: 'docs',
+    sourceUrlTemplate: 'https://github.com/jito-foundation/jito-omnidocs/blob/{branch}/{path}',
+  },
+];
+
+let corpora: Corpus[] | undefined;
+
+/**
+ * Loads the corpus registry from CORPORA_CONFIG (default `./corpora.json`),
+ * falling back to the Jito docs alone when no registry file exists
+ */
+export function getCorpora(): Corpus[] {
+  if (corpora) {
+    return corpora;
+  }
+
+  const file = process.env.CORPORA_CONFIG || path.join(process.cwd(), 'corpora.json');
+  if (!existsSync(file)) {
+    corpora = DEFAULT_CORPORA;
+    return corpora;
+  }
+
+  const entries = JSON.parse(readFileSync(file, 'utf-8')) as Partial<Corpus>[];
+  const loaded = entries.map((entry): Corpus => {
+    if (!entry.name || !entry.collection || !entry.sourceUrlTemplate) {
+      throw new Error(`Corpus entries in ${file} need a name, collection and sourceUrlTemplate`);
+    }
+    return {
+      name: entry.name,
+      title: entry.title || entry.name,
+      repo: entry.repo,
+      branch: entry.branch || 'main',
+      glob: entry.glob || '**/*.{md,mdx}',
+      collection: entry.collection,
+      dir: entry.dir || path.join('corpora', entry.name),
+      sourceUrlTemplate: entry.sourceUrlTemplate,
+    };
+  });
+
+  // Search results are attributed to a corpus by collection, so collections can't be shared
+  for (const key of ['name', 'collection'] as const) {
+    const seen = new Set<string>();
+    for (const corpus of loaded) {
+      if (seen.has(corpus[key])) {
+        throw new Error(`Duplicate corpus ${key} "${corpus[key]}" in ${file}`);
+      }
+      seen.add(corpus[key]);
+    }
+  }
+
+  corpora = loaded;
+  return corpora;
+}
+
+/**
+ * Returns the named corpus, throwing a descriptive error for unknown names
+ */
+export function getCorpus(name: string): Corpus {
+  const corpus = getCorpora().find((c) => c.name === name);
+  if (!corpus) {
+    throw new Error(`Unknown corpus "${name}" (available: ${getCorpora().map((c) => c.name).join(', ')})`);
+  }
+  return corpus;
+}
+
+/**
+ * Resolves an optional `corpus` argument to the corpora it covers (all when omitted)
+ */
+export function selectCorpora(name?: string): Corpus[] {
+  return name ? [getCorpus(name)] : getCorpora();
+}
+
+export function getCorpusDir(corpus: Corpus): string {
+  return path.resolve(process.cwd(), corpus.dir);
+}
+
+/**
+ * Checkout directories of other corpora nested inside a corpus's own, which
+ * its glob must not reach into
+ */
+export function getNestedCorpusDirs(corpus: Corpus): string[] {
+  const dir = getCorpusDir(corpus);
+  return getCorpora()
+    .filter((other) => other.name !== corpus.name)
+    .map(getCorpusDir)
+    .filter((otherDir) => otherDir.startsWith(`${dir}${path.sep}`));
+}
+
+export function getSourceUrl(corpus: Corpus, docPath: string): string {
+  return corpus.sourceUrlTemplate
+    .replace('{branch}', corpus.branch)
+    .replace('{path}', docPath);
+}
+
+const stores = new Map<string, VectorStore>();
+
+export function getCorpusStore(corpus: Corpus): VectorStore {
+  let store = stores.get(corpus.name);
+  if (!store) {
+    store = createVectorStore(corpus.collection);
+    stores.set(corpus.name, store);
+  }
+  return store;
+}
+
+/**
+ * The corpora whose collection exists, leaving out those not indexed yet
+ */
+export async function getIndexedCorpora(corpora: Corpus[]): Promise<Corpus[]> {
+  const indexed = new Set(await getIndexedStores(corpora.map(getCorpusStore)));
+  return corpora.filter((corpus) => indexed.has(getCorpusStore(corpus)));
+}
+
+/**
+ * Maps a collection back to the corpus indexed into it
+ */
+export function getCorpusByCollection(collection: string): Corpus {
+  const corpus = getCorpora().find((c) => c.collection === collection);
+  if (!corpus) {
+    throw new Error(`No corpus is indexed into collection "${collection}"`);
+  }
+  return corpus;
+}
+
+/**
+ * Looks a point up by ID in each of the given corpora that is indexed,
+ * returning the first hit
+ */
+export async function retrieveFromCorpora(corpora: Corpus[], id: string): Promise<{ corpus: Corpus, point: StoredPoint } | undefined> {
+  for (const corpus of await getIndexedCorpora(corpora)) {
+    const [point] = await getCorpusStore(corpus).retrieve([id]);
+    if (point) {
+      return { corpus, point };
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,250 @@
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { mergeChunks } from './chunker.js';
+import { Corpus, getCorpusStore, getIndexedCorpora, getSourceUrl, retrieveFromCorpora } from './corpora.js';
+import { Filter, StoredPoint, VectorStore } from './vectorStore.js';
+import { getIndexVersion } from './search.js';
+
+/**
+ * A page of a reassembled document, in chunks (roughly 1,000 characters
+ * each): DOCUMENT_PAGE_CHUNKS (default 20)
+ */
+export function getDocumentPageChunks(): number {
+  return Number(process.env.DOCUMENT_PAGE_CHUNKS) || 20;
+}
+
+const SCROLL_PAGE_SIZE = 100;
+
+export const MAX_CONTEXT_CHUNKS = 5;
+
+/**
+ * Zod input for the number of neighbouring chunks merged around a hit
+ */
+export const CONTEXT_INPUT = z.number().int().min(0).max(MAX_CONTEXT_CHUNKS).optional().default(0)
+  .describe(`Neighbouring chunks of the same document to merge in before and after each hit (0-${MAX_CONTEXT_CHUNKS})`);
+
+/**
+ * Identifies a document across re-indexing; stored in every chunk's payload
+ */
+export function getDocumentId(corpus: string, docPath: string): string {
+  return createHash('md5').update(`${corpus}:${docPath}`).digest('hex');
+}
+
+/**
+ * Scrolls through every point matching a filter, following `nextOffset`
+ */
+export async function scrollAll(store: VectorStore, filter?: Filter): Promise<StoredPoint[]> {
+  const points: StoredPoint[] = [];
+  let offset: string | number | undefined;
+  do {
+    const page = await store.scroll({ filter, limit: SCROLL_PAGE_SIZE, offset });
+    points.push(...page.points);
+    offset = page.nextOffset;
+  } while (offset !== undefined);
+  return points;
+}
+
+interface ChunkPayload {
+  content?: string;
+  metadata?: {
+    docId?: string;
+    path?: string;
+    section?: string;
+    title?: string;
+    lastUpdated?: string;
+    chunkIndex?: number;
+    totalChunks?: number;
+  };
+}
+
+function getMetadata(point: StoredPoint): NonNullable<ChunkPayload['metadata']> {
+  return (point.payload as ChunkPayload | null | undefined)?.metadata ?? {};
+}
+
+/**
+ * Returns a chunk merged with up to `context` chunks before and after it from
+ * the same document, as one passage with the overlap between chunks removed.
+ * Chunks indexed without their position are returned alone.
+ */
+export async function expandContext(corpus: Corpus, point: StoredPoint, context: number): Promise<string> {
+  const content = (point.payload as ChunkPayload | null | undefined)?.content || '';
+  const { docId, chunkIndex } = getMetadata(point);
+  if (context <= 0 || !docId || chunkIndex === undefined) {
+    return content;
+  }
+
+  const neighbours = await scrollAll(getCorpusStore(corpus), {
+    must: [
+      { key: 'metadata.docId', match: { value: docId } },
+      { key: 'metadata.chunkIndex', range: { gte: chunkIndex - context, lte: chunkIndex + context } },
+    ],
+  });
+  if (neighbours.length === 0) {
+    return content;
+  }
+
+  neighbours.sort((a, b) => (getMetadata(a).chunkIndex ?? 0) - (getMetadata(b).chunkIndex ?? 0));
+  return mergeChunks(neighbours.map((chunk) => (chunk.payload as ChunkPayload).content || ''));
+}
+
+export interface DocumentSummary {
+  corpus: Corpus;
+  documentId: string;
+  /** Path relative to the corpus root */
+  path: string;
+  section: string;
+  title: string;
+  lastUpdated?: string;
+}
+
+// Each corpus's document list, kept until the indexer records a new index version
+const documentLists = new Map<string, { version: string, documents: DocumentSummary[] }>();
+
+async function listCorpusDocuments(corpus: Corpus): Promise<DocumentSummary[]> {
+  const store = getCorpusStore(corpus);
+  const version = await getIndexVersion(store);
+  const cached = documentLists.get(corpus.name);
+  if (cached && version && cached.version === version) {
+    return cached.documents;
+  }
+
+  const firstChunks = await scrollAll(store, {
+    must: [{ key: 'metadata.chunkIndex', match: { value: 0 } }],
+  });
+  const documents = firstChunks.map((chunk): DocumentSummary => {
+    const metadata = getMetadata(chunk);
+    return {
+      corpus,
+      documentId: metadata.docId || '',
+      path: metadata.path || '',
+      section: metadata.section || '',
+      title: metadata.title || metadata.path || 'Untitled',
+      lastUpdated: metadata.lastUpdated || undefined,
+    };
+  });
+  documentLists.set(corpus.name, { version, documents });
+  return documents;
+}
+
+/**
+ * Lists every indexed document of the given corpora, reading only the first
+ * chunk of each, ordered by corpus and path. Lists are cached per corpus until
+ * its index version changes; collections without one are read every time.
+ * Corpora not indexed yet have no documents.
+ */
+export async function listDocuments(corpora: Corpus[]): Promise<DocumentSummary[]> {
+  const documents: DocumentSummary[] = [];
+  for (const corpus of await getIndexedCorpora(corpora)) {
+    documents.push(...await listCorpusDocuments(corpus));
+  }
+  return documents.sort((a, b) => a.corpus.name.localeCompare(b.corpus.name) || a.path.localeCompare(b.path));
+}
+
+export interface DocumentRef {
+  /** Document path relative to the corpus root */
+  path?: string;
+  /** ID of any chunk of the document */
+  id?: string;
+}
+
+export interface PageRange {
+  /** First page to return, 1-based */
+  startPage?: number;
+  /** Last page to return, inclusive; defaults to the last page */
+  endPage?: number;
+}
+
+export interface DocumentResult {
+  documentId: string;
+  title: string;
+  url: string;
+  section: string;
+  path: string;
+  corpus: string;
+  lastUpdated?: string;
+  text: string;
+  totalChunks: number;
+  startPage: number;
+  endPage: number;
+  totalPages: number;
+}
+
+/**
+ * Resolves a path or chunk ID to the corpus and ID of the document it names
+ */
+async function resolveDocument(corpora: Corpus[], { path, id }: DocumentRef): Promise<{ corpus: Corpus, documentId: string } | undefined> {
+  if (id) {
+    const found = await retrieveFromCorpora(corpora, id);
+    const documentId = found && getMetadata(found.point).docId;
+    if (found && !documentId) {
+      throw new Error(`Chunk "${id}" was indexed without a document ID; reindex with pnpm run index-docs --force`);
+    }
+    return found && documentId ? { corpus: found.corpus, documentId } : undefined;
+  }
+
+  const normalized = (path || '').replace(/^\/+/, '');
+  for (const corpus of await getIndexedCorpora(corpora)) {
+    const documentId = getDocumentId(corpus.name, normalized);
+    const { points } = await getCorpusStore(corpus).scroll({
+      filter: { must: [{ key: 'metadata.docId', match: { value: documentId } }] },
+      limit: 1,
+    });
+    if (points.length > 0) {
+      return { corpus, documentId };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reassembles a document from its indexed chunks, in order and without the
+ * overlap between neighbouring chunks. Long documents are split into pages of
+ * DOCUMENT_PAGE_CHUNKS chunks; only the requested pages are loaded.
+ * Returns undefined when no corpus holds the document.
+ */
+export async function getDocument(corpora: Corpus[], ref: DocumentRef, range: PageRange = {}): Promise<DocumentResult | undefined> {
+  const resolved = await resolveDocument(corpora, ref);
+  if (!resolved) {
+    return undefined;
+  }
+
+  const { corpus, documentId } = resolved;
+  const pageChunks = getDocumentPageChunks();
+  const startPage = range.startPage ?? 1;
+  const chunks = await scrollAll(getCorpusStore(corpus), {
+    must: [
+      { key: 'metadata.docId', match: { value: documentId } },
+      {
+        key: 'metadata.chunkIndex',
+        range: {
+          gte: (startPage - 1) * pageChunks,
+          ...(range.endPage !== undefined && { lt: range.endPage * pageChunks }),
+        },
+      },
+    ],
+  });
+
+  if (chunks.length === 0) {
+    throw new Error(`Page ${startPage} is past the end of the document`);
+  }
+
+  chunks.sort((a, b) => (getMetadata(a).chunkIndex ?? 0) - (getMetadata(b).chunkIndex ?? 0));
+  const metadata = getMetadata(chunks[0]);
+  const totalChunks = metadata.totalChunks ?? chunks.length;
+  const totalPages = Math.ceil(totalChunks / pageChunks);
+
+  return {
+    documentId,
+    title: metadata.title || metadata.section || 'Untitled',
+    url: getSourceUrl(corpus, metadata.path || ''),
+    section: metadata.section || '',
+    path: metadata.path || '',
+    corpus: corpus.name,
+    lastUpdated: metadata.lastUpdated || undefined,
+    text: mergeChunks(chunks.map((chunk) => (chunk.payload as ChunkPayload).content || '')),
+    totalChunks,
+    startPage,
+    endPage: Math.min(range.endPage ?? totalPages, totalPages),
+    totalPages,
+  };
+}
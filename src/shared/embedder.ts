@@ -0,0 +1,188 @@
+import { OpenAI } from 'openai';
+import type { FeatureExtractionPipeline } from '@xenova/transformers';
+import { RetryOptions, withRetry } from './retry.js';
+import { loadTransformers } from './transformers.js';
+import { CacheStats, LruCache, normalizeQuery } from './cache.js';
+import { embeddingDuration, embeddingErrors } from './metrics.js';
+
+/**
+ * Turns text into dense vectors. Implementations must return one vector per
+ * input, in input order, all of length `dimensions()`.
+ */
+export interface Embedder {
+  readonly provider: string;
+  readonly model: string;
+
+  /**
+   * Returns the vector size produced by the model
+   */
+  dimensions(): Promise<number>;
+
+  /**
+   * Embeds a batch of texts
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Vector sizes of the models we know about, so we don't have to probe them
+const KNOWN_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+  'Xenova/all-MiniLM-L6-v2': 384,
+  'Xenova/all-MiniLM-L12-v2': 384,
+  'Xenova/bge-small-en-v1.5': 384,
+  'Xenova/bge-base-en-v1.5': 768,
+  'Xenova/gte-small': 384,
+};
+
+export const DEFAULT_OPENAI_MODEL = 'text-embedding-3-small';
+export const DEFAULT_LOCAL_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+/**
+ * Embeds text through the OpenAI embeddings API
+ */
+export class OpenAIEmbedder implements Embedder {
+  readonly provider = 'openai';
+  private client: OpenAI;
+
+  /**
+   * `retry` bounds the retries of each request; servers embedding queries pass
+   * QUERY_RETRY so a failing provider does not hold up the client
+   */
+  constructor(readonly model: string = DEFAULT_OPENAI_MODEL, client?: OpenAI, private retry: RetryOptions = {}) {
+    // Retries are handled by withRetry, which also honours rate-limit reset headers
+    this.client = client || new OpenAI({ apiKey: process.env.OPENAI_API_KEY, maxRetries: 0 });
+  }
+
+  async dimensions(): Promise<number> {
+    return KNOWN_DIMENSIONS[this.model] ?? (await this.embed(['dimension probe']))[0].length;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const response = await withRetry(() => this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+    }), { ...this.retry, label: `OpenAI embeddings (${texts.length} inputs)` });
+
+    // The API does not guarantee ordering, so sort by the returned index
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+}
+
+/**
+ * Embeds text in-process with a sentence-transformers model via @xenova/transformers.
+ * Nothing leaves the machine. Set LOCAL_MODEL_PATH to load models from disk only
+ * (for air-gapped hosts); otherwise models are downloaded once into the cache.
+ */
+export class LocalEmbedder implements Embedder {
+  readonly provider = 'local';
+  private extractor?: Promise<FeatureExtractionPipeline>;
+
+  constructor(readonly model: string = DEFAULT_LOCAL_MODEL) {}
+
+  private getExtractor(): Promise<FeatureExtractionPipeline> {
+    if (!this.extractor) {
+      this.extractor = (async () => {
+        const transformers = await loadTransformers();
+        return await transformers.pipeline('feature-extraction', this.model) as FeatureExtractionPipeline;
+      })();
+      // Allow a retry if loading the model failed
+      this.extractor.catch(() => { this.extractor = undefined; });
+    }
+    return this.extractor;
+  }
+
+  async dimensions(): Promise<number> {
+    return KNOWN_DIMENSIONS[this.model] ?? (await this.embed(['dimension probe']))[0].length;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const extractor = await this.getExtractor();
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    return output.tolist() as number[][];
+  }
+}
+
+/**
+ * Wraps an embedder with an LRU cache keyed by model and normalized text, so
+ * repeated queries are embedded once. Sized by EMBEDDING_CACHE_SIZE (default
+ * 1000 entries, 0 to disable).
+ */
+export class CachingEmbedder implements Embedder {
+  private cache: LruCache<number[]>;
+
+  constructor(private inner: Embedder, maxEntries: number = Number(process.env.EMBEDDING_CACHE_SIZE ?? 1000)) {
+    this.cache = new LruCache(maxEntries);
+  }
+
+  get provider(): string {
+    return this.inner.provider;
+  }
+
+  get model(): string {
+    return this.inner.model;
+  }
+
+  /** The wrapped embedder, for calls that must reach the provider */
+  get uncached(): Embedder {
+    return this.inner;
+  }
+
+  dimensions(): Promise<number> {
+    return this.inner.dimensions();
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const keys = texts.map((text) => `${this.provider}:${this.model}:${normalizeQuery(text)}`);
+    const embeddings = keys.map((key) => this.cache.get(key));
+
+    const missing = embeddings.flatMap((embedding, i) => (embedding ? [] : [i]));
+    if (missing.length > 0) {
+      const labels = { provider: this.provider };
+      const computed = await embeddingDuration.time(labels, () => this.inner.embed(missing.map((i) => texts[i])))
+        .catch((error) => {
+          embeddingErrors.inc(labels);
+          throw error;
+        });
+      missing.forEach((i, j) => {
+        embeddings[i] = computed[j];
+        this.cache.set(keys[i], computed[j]);
+      });
+    }
+    return embeddings as number[][];
+  }
+
+  stats(): CacheStats {
+    return this.cache.stats();
+  }
+}
+
+/**
+ * Creates the embedder selected by EMBEDDING_PROVIDER (`openai` or `local`)
+ * and EMBEDDING_MODEL. The indexer and the servers must agree on both.
+ * `retry` applies to providers called over the network.
+ */
+export function createEmbedder(retry: RetryOptions = {}): Embedder {
+  const provider = (process.env.EMBEDDING_PROVIDER || 'openai').toLowerCase();
+  const model = process.env.EMBEDDING_MODEL;
+
+  switch (provider) {
+    case 'openai':
+      return new OpenAIEmbedder(model || DEFAULT_OPENAI_MODEL, undefined, retry);
+    case 'local':
+      return new LocalEmbedder(model || DEFAULT_LOCAL_MODEL);
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${provider}" (expected "openai" or "local")`);
+  }
+}
@@ -0,0 +1,357 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import path from 'path';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { EventStore, StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { createLogger } from './logger.js';
+
+interface StoredEvent {
+  seq: number;
+  storedAt: number;
+  message: JSONRPCMessage;
+}
+
+/** A line of the event file holding an event */
+interface EventRecord extends StoredEvent {
+  stream: string;
+  owner?: string;
+}
+
+/** A line of the event file recording that a session was closed */
+interface EndedRecord {
+  ended: string;
+  endedAt: number;
+}
+
+/**
+ * A stream's events in sequence order. Evicted events are skipped by advancing
+ * `head` rather than shifting the array.
+ */
+interface Stream {
+  events: StoredEvent[];
+  head: number;
+  /** Name of the API key that owns the stream's session */
+  owner?: string;
+}
+
+// The log is rewritten once it holds this many times more lines than live events
+const COMPACT_RATIO = 2;
+const COMPACT_MIN_LINES = 1000;
+
+const logger = createLogger('event-store');
+
+/**
+ * Event store for resumable Streamable HTTP streams, shared by all sessions of
+ * a server. Each stream's events are kept in sequence order, so replay finds
+ * the last event by binary search. Events older than `ttlMs` are dropped, as
+ * are the oldest events beyond `maxEvents`. With a file, events are appended
+ * to it as JSON lines and reloaded on start, so clients can resume after a
+ * restart; the file is compacted as events are evicted.
+ *
+ * Each session needs its own view from `forSession()`: the SDK gives every
+ * session's standalone stream the same ID. Streams are stored under the
+ * session ID, so the servers can recreate a session's transport after a
+ * restart (see `restoreTransport`). A session closed for good (deleted by its
+ * client, terminated or expired) is ended with `endSession()`: its events are
+ * dropped and it can no longer be found or restored.
+ */
+export class FileEventStore {
+  private streams = new Map<string, Stream>();
+  /** Stream of every live event in the order stored, oldest first, from `orderHead` */
+  private order: { stream: string, storedAt: number }[] = [];
+  private orderHead = 0;
+  /** Sequence numbers are unique across streams, so an event ID is never reused */
+  private nextSeq = 0;
+  private logLines = 0;
+  /** When each ended session was ended, oldest first; kept as long as events are */
+  private ended = new Map<string, number>();
+
+  constructor(private file?: string, private ttlMs: number = 60 * 60 * 1000, private maxEvents: number = 10_000) {
+    if (file) {
+      this.load(file);
+    }
+  }
+
+  get size(): number {
+    return this.order.length - this.orderHead;
+  }
+
+  /**
+   * An EventStore for one session, owned by the named API key, whose stream
+   * IDs cannot collide with those of other sessions. It replays only its own
+   * session's events.
+   */
+  forSession(sessionId: string, owner?: string): EventStore {
+    const scope = `${sessionId}/`;
+    return {
+      storeEvent: async (streamId, message) => this.storeEvent(`${scope}${streamId}`, message, owner),
+      replayEventsAfter: async (lastEventId, { send }) => {
+        if (!lastEventId.startsWith(scope)) {
+          logger.warning('Refused to replay events of another session', { lastEventId });
+          return '';
+        }
+        const stream = await this.replayEventsAfter(lastEventId, send);
+        return stream.slice(scope.length);
+      },
+    };
+  }
+
+  /**
+   * Whether the store holds events of a session, and which key owns it
+   */
+  findSession(sessionId: string): { owner?: string } | undefined {
+    this.evict();
+    if (this.ended.has(sessionId)) {
+      return undefined;
+    }
+    const scope = `${sessionId}/`;
+    for (const [stream, entry] of this.streams) {
+      if (stream.startsWith(scope)) {
+        return { owner: entry.owner };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Drops a closed session's events and refuses it from now on, so that its
+   * ID cannot bring it back. Not to be called for sessions closed by a
+   * shutdown, which their clients should be able to resume.
+   */
+  endSession(sessionId: string): void {
+    if (this.ended.has(sessionId)) {
+      return;
+    }
+    const endedAt = Date.now();
+    this.end(sessionId, endedAt);
+    if (this.file) {
+      appendFileSync(this.file, `${JSON.stringify({ ended: sessionId, endedAt } satisfies EndedRecord)}\n`);
+      this.logLines++;
+    }
+  }
+
+  private end(sessionId: string, endedAt: number): void {
+    const scope = `${sessionId}/`;
+    this.ended.set(sessionId, endedAt);
+    for (const stream of this.streams.keys()) {
+      if (stream.startsWith(scope)) {
+        this.streams.delete(stream);
+      }
+    }
+    this.order = this.order.slice(this.orderHead).filter(({ stream }) => !stream.startsWith(scope));
+    this.orderHead = 0;
+  }
+
+  private isEnded(stream: string): boolean {
+    return this.ended.has(stream.slice(0, stream.indexOf('/')));
+  }
+
+  private getStream(stream: string): Stream {
+    let entry = this.streams.get(stream);
+    if (!entry) {
+      entry = { events: [], head: 0 };
+      this.streams.set(stream, entry);
+    }
+    return entry;
+  }
+
+  private append(stream: string, event: StoredEvent, owner: string | undefined): void {
+    const entry = this.getStream(stream);
+    entry.events.push(event);
+    entry.owner = owner;
+    this.order.push({ stream, storedAt: event.storedAt });
+  }
+
+  private storeEvent(stream: string, message: JSONRPCMessage, owner: string | undefined): string {
+    const event = { seq: this.nextSeq++, storedAt: Date.now(), message };
+    if (this.isEnded(stream)) {
+      // A response finished after its session was closed; it can never be replayed
+      return `${stream}_${event.seq}`;
+    }
+    this.append(stream, event, owner);
+
+    if (this.file) {
+      appendFileSync(this.file, `${JSON.stringify({ stream, owner, ...event } satisfies EventRecord)}\n`);
+      this.logLines++;
+    }
+    this.evict();
+    return `${stream}_${event.seq}`;
+  }
+
+  private async replayEventsAfter(lastEventId: string, send: (eventId: string, message: JSONRPCMessage) => Promise<void>): Promise<string> {
+    this.evict();
+    const separator = lastEventId.lastIndexOf('_');
+    const stream = lastEventId.slice(0, separator);
+    const seq = Number(lastEventId.slice(separator + 1));
+    const entry = this.streams.get(stream);
+    if (separator < 0 || !entry || !Number.isInteger(seq)) {
+      return '';
+    }
+
+    const index = this.findEvent(entry, seq);
+    if (index < 0) {
+      // The event was evicted, so events after it may be missing too
+      return '';
+    }
+
+    // Copy first: sending yields, and new events may be stored meanwhile
+    for (const event of entry.events.slice(index + 1)) {
+      await send(`${stream}_${event.seq}`, event.message);
+    }
+    return stream;
+  }
+
+  /**
+   * Index of the event with sequence number `seq` among a stream's live events, or -1
+   */
+  private findEvent(entry: Stream, seq: number): number {
+    let low = entry.head;
+    let high = entry.events.length - 1;
+    while (low <= high) {
+      const mid = (low + high) >>> 1;
+      const midSeq = entry.events[mid].seq;
+      if (midSeq === seq) {
+        return mid;
+      }
+      if (midSeq < seq) {
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Drops expired events and the oldest beyond the cap. Events are stored in
+   * time order, so the globally oldest event is always the first of its stream.
+   */
+  private evict(): void {
+    const expiredBefore = this.ttlMs > 0 ? Date.now() - this.ttlMs : -Infinity;
+    let evicted = false;
+    while (this.size > 0 && (this.size > this.maxEvents || this.order[this.orderHead].storedAt < expiredBefore)) {
+      const { stream } = this.order[this.orderHead++];
+      const entry = this.streams.get(stream)!;
+      entry.head++;
+      if (entry.head === entry.events.length) {
+        this.streams.delete(stream);
+      } else if (entry.head > 1000 && entry.head * 2 > entry.events.length) {
+        entry.events = entry.events.slice(entry.head);
+        entry.head = 0;
+      }
+      evicted = true;
+    }
+
+    for (const [sessionId, endedAt] of this.ended) {
+      if (endedAt >= expiredBefore && this.ended.size <= this.maxEvents) {
+        break;
+      }
+      this.ended.delete(sessionId);
+      evicted = true;
+    }
+
+    if (evicted && this.orderHead * 2 > this.order.length) {
+      this.order = this.order.slice(this.orderHead);
+      this.orderHead = 0;
+    }
+    if (evicted && this.file && this.logLines > Math.max(COMPACT_MIN_LINES, this.size * COMPACT_RATIO)) {
+      this.compact(this.file);
+    }
+  }
+
+  private load(file: string): void {
+    mkdirSync(path.dirname(file), { recursive: true });
+    if (existsSync(file)) {
+      const lines = readFileSync(file, 'utf-8').split('\n');
+      for (const line of lines) {
+        if (!line) {
+          continue;
+        }
+        let record: EventRecord | EndedRecord;
+        try {
+          record = JSON.parse(line) as EventRecord | EndedRecord;
+        } catch {
+          // A crash can leave the last line half-written
+          logger.warning('Skipping unreadable line in event store', { file });
+          continue;
+        }
+        if ('ended' in record) {
+          this.end(record.ended, record.endedAt);
+          continue;
+        }
+        const { stream, owner, ...event } = record;
+        this.nextSeq = Math.max(this.nextSeq, event.seq + 1);
+        if (!this.isEnded(stream)) {
+          this.append(stream, event, owner);
+        }
+      }
+    }
+
+    this.evict();
+    this.compact(file);
+    logger.info('Loaded event store', { file, events: this.size, streams: this.streams.size });
+  }
+
+  /**
+   * Rewrites the file with only the live events and ended sessions, via a
+   * temporary file
+   */
+  private compact(file: string): void {
+    let content = '';
+    for (const [ended, endedAt] of this.ended) {
+      content += `${JSON.stringify({ ended, endedAt } satisfies EndedRecord)}\n`;
+    }
+    const positions = new Map<string, number>();
+    for (const { stream } of this.order.slice(this.orderHead)) {
+      const entry = this.streams.get(stream)!;
+      const index = positions.get(stream) ?? entry.head;
+      positions.set(stream, index + 1);
+      content += `${JSON.stringify({ stream, owner: entry.owner, ...entry.events[index] } satisfies EventRecord)}\n`;
+    }
+
+    const tmp = `${file}.tmp`;
+    writeFileSync(tmp, content);
+    renameSync(tmp, file);
+    this.logLines = this.ended.size + this.size;
+  }
+}
+
+/**
+ * Creates the event store selected by EVENT_STORE: `file` (default), kept in
+ * EVENT_STORE_FILE (default `./.mcp-events.jsonl`), or `memory`. Events
+ * expire after EVENT_STORE_TTL_MS (default one hour; 0 for never) and at most
+ * EVENT_STORE_MAX_EVENTS (default 10000) are kept.
+ */
+export function createEventStore(): FileEventStore {
+  const backend = (process.env.EVENT_STORE || 'file').toLowerCase();
+  const ttlMs = Number(process.env.EVENT_STORE_TTL_MS ?? 60 * 60 * 1000);
+  const maxEvents = Number(process.env.EVENT_STORE_MAX_EVENTS) || 10_000;
+
+  switch (backend) {
+    case 'file':
+      return new FileEventStore(path.resolve(process.cwd(), process.env.EVENT_STORE_FILE || '.mcp-events.jsonl'), ttlMs, maxEvents);
+    case 'memory':
+      return new FileEventStore(undefined, ttlMs, maxEvents);
+    default:
+      throw new Error(`Unknown EVENT_STORE "${backend}" (expected "file" or "memory")`);
+  }
+}
+
+/**
+ * Marks a transport created for a session found in the event store as
+ * initialized under that session's ID, as if it had handled the session's
+ * initialize request, so that the session's client can go on using it and
+ * resume its streams after a restart.
+ *
+ * The SDK has no public way to do this, so this sets the transport's private
+ * `_initialized` flag, which is why @modelcontextprotocol/sdk is pinned to an
+ * exact version in package.json. Throws if the flag is gone, rather than
+ * restoring a session the transport would refuse.
+ */
+export function restoreTransport(transport: StreamableHTTPServerTransport, sessionId: string): void {
+  const restored = transport as unknown as { sessionId?: string, _initialized?: unknown };
+  if (typeof restored._initialized !== 'boolean') {
+    throw new Error('Cannot restore sessions: this version of @modelcontextprotocol/sdk has no StreamableHTTPServerTransport._initialized');
+  }
+  restored.sessionId = sessionId;
+  restored._initialized = true;
+}
@@ -0,0 +1,197 @@
+import express, { Request, Response, Router } from 'express';
+import { CachingEmbedder } from './embedder.js';
+import { Corpus, getCorpora, getCorpusStore } from './corpora.js';
+import { getSearchCacheStats } from './search.js';
+import { createLogger } from './logger.js';
+
+/**
+ * `ready` serves traffic; `degraded` still does, but an index is stale;
+ * `unready` cannot answer searches
+ */
+export type ReadinessStatus = 'ready' | 'degraded' | 'unready';
+
+export interface CollectionCheck {
+  corpus: string;
+  collection: string;
+  ok: boolean;
+  error?: string;
+  pointsCount?: number;
+  vectorSize?: number;
+  expectedVectorSize?: number;
+  index?: {
+    updatedAt: string;
+    succeededAt?: string;
+    /** Seconds since the last full indexing run without failures (or the last change, for older indexes) */
+    ageSeconds: number;
+    stale: boolean;
+  };
+}
+
+export interface EmbeddingCheck {
+  provider: string;
+  model: string;
+  ok: boolean;
+  error?: string;
+  latencyMs?: number;
+  checkedAt: string;
+}
+
+export interface ReadinessReport {
+  status: ReadinessStatus;
+  checkedAt: string;
+  collections: CollectionCheck[];
+  embeddings: EmbeddingCheck;
+}
+
+// A successful embedding probe is trusted this long, so frequent probes do not each call the provider
+const EMBEDDING_PROBE_TTL_MS = 60_000;
+
+const logger = createLogger('health');
+
+/**
+ * Each dependency check fails after READINESS_TIMEOUT_MS (default 5 seconds)
+ */
+function getTimeoutMs(): number {
+  return Number(process.env.READINESS_TIMEOUT_MS) || 5000;
+}
+
+/**
+ * An index not successfully run for INDEX_STALE_AFTER_HOURS (default 24; 0
+ * never) is reported stale. The indexing workflow runs every 6 hours.
+ */
+function getStaleAfterMs(): number {
+  return Number(process.env.INDEX_STALE_AFTER_HOURS ?? 24) * 60 * 60 * 1000;
+}
+
+function withTimeout<T>(promise: Promise<T>, label: string): Promise<T> {
+  const timeoutMs = getTimeoutMs();
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function checkCollection(corpus: Corpus, expectedVectorSize: number | undefined): Promise<CollectionCheck> {
+  const store = getCorpusStore(corpus);
+  const check: CollectionCheck = { corpus: corpus.name, collection: corpus.collection, ok: false, expectedVectorSize };
+  try {
+    const info = await withTimeout(store.getCollection(), 'Vector store');
+    if (!info) {
+      return { ...check, error: 'Collection does not exist' };
+    }
+    const state = await withTimeout(store.getIndexState(), 'Vector store');
+    check.pointsCount = info.pointsCount;
+    check.vectorSize = info.denseSize;
+
+    if (state) {
+      const ageMs = Date.now() - Date.parse(state.succeededAt ?? state.updatedAt);
+      const staleAfterMs = getStaleAfterMs();
+      check.index = {
+        updatedAt: state.updatedAt,
+        succeededAt: state.succeededAt,
+        ageSeconds: Math.round(ageMs / 1000),
+        stale: staleAfterMs > 0 && ageMs > staleAfterMs,
+      };
+    }
+
+    if (expectedVectorSize !== undefined && info.denseSize !== expectedVectorSize) {
+      return { ...check, error: `Collection has ${info.denseSize ?? 'unnamed'}-dim vectors; the embedding model produces ${expectedVectorSize}` };
+    }
+    if (info.pointsCount === 0) {
+      return { ...check, error: 'Collection is empty' };
+    }
+    return { ...check, ok: true };
+  } catch (error) {
+    return { ...check, error: errorMessage(error) };
+  }
+}
+
+/**
+ * Readiness checks for a server: every corpus collection must exist with the
+ * embedding model's vector size and hold points, and the embedding provider
+ * must answer
+ */
+export class ReadinessChecker {
+  private lastProbe?: EmbeddingCheck;
+
+  constructor(private embedder: CachingEmbedder) {}
+
+  /**
+   * Embeds a probe text through the provider, bypassing the query cache
+   */
+  private async checkEmbeddings(): Promise<EmbeddingCheck> {
+    const { provider, model } = this.embedder;
+    if (this.lastProbe?.ok && Date.now() - Date.parse(this.lastProbe.checkedAt) < EMBEDDING_PROBE_TTL_MS) {
+      return this.lastProbe;
+    }
+
+    const start = performance.now();
+    try {
+      await withTimeout(this.embedder.uncached.embed(['readiness check']), 'Embedding provider');
+      this.lastProbe = { provider, model, ok: true, latencyMs: Math.round(performance.now() - start), checkedAt: new Date().toISOString() };
+    } catch (error) {
+      this.lastProbe = { provider, model, ok: false, error: errorMessage(error), checkedAt: new Date().toISOString() };
+    }
+    return this.lastProbe;
+  }
+
+  async check(): Promise<ReadinessReport> {
+    const expectedVectorSize = await this.embedder.dimensions().catch(() => undefined);
+    const [collections, embeddings] = await Promise.all([
+      Promise.all(getCorpora().map((corpus) => checkCollection(corpus, expectedVectorSize))),
+      this.checkEmbeddings(),
+    ]);
+
+    let status: ReadinessStatus = 'ready';
+    if (!embeddings.ok || collections.some((check) => !check.ok)) {
+      status = 'unready';
+    } else if (collections.some((check) => check.index?.stale)) {
+      status = 'degraded';
+    }
+    return { status, checkedAt: new Date().toISOString(), collections, embeddings };
+  }
+}
+
+/**
+ * Routes under /health: `GET /health` and `GET /health/live` answer while the
+ * process is up, `GET /health/ready` runs the readiness checks and answers
+ * 503 when the server cannot serve searches. A stale index is reported but
+ * still answers 200, since every instance reads the same index and taking
+ * them all out of rotation would not make it fresher.
+ */
+export function createHealthRouter(embedder: CachingEmbedder): Router {
+  const router = express.Router();
+  const checker = new ReadinessChecker(embedder);
+  let lastStatus: ReadinessStatus | undefined;
+
+  const live = (_req: Request, res: Response) => {
+    res.json({
+      status: 'healthy',
+      timestamp: new Date().toISOString(),
+      uptimeSeconds: Math.round(process.uptime()),
+      cache: {
+        embeddings: embedder.stats(),
+        results: getSearchCacheStats(),
+      },
+    });
+  };
+  router.get('/', live);
+  router.get('/live', live);
+
+  router.get('/ready', async (_req: Request, res: Response) => {
+    const report = await checker.check();
+    if (report.status !== lastStatus) {
+      const failures = [...report.collections.filter((check) => !check.ok), ...(report.embeddings.ok ? [] : [report.embeddings])];
+      logger.log(report.status === 'unready' ? 'error' : report.status === 'degraded' ? 'warning' : 'info', `Readiness changed to ${report.status}`, { failures });
+      lastStatus = report.status;
+    }
+    res.status(report.status === 'unready' ? 503 : 200).json(report);
+  });
+
+  return router;
+}
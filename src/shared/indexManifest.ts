@@ -0,0 +1,113 @@
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+import path from 'path';
+import type { Filter, VectorStore } from './vectorStore.js';
+
+// Bump when chunking or payload layout changes so every file is re-embedded
+export const INDEX_SCHEMA_VERSION = 6;
+
+const SCROLL_PAGE_SIZE = 256;
+
+export interface ManifestEntry {
+  /** Undefined when the stored chunks predate file hashes, so the file is re-embedded */
+  hash?: string;
+  /** Chunks stored for the file, counting up to its highest chunk index */
+  chunks: number;
+}
+
+/**
+ * What the indexer last wrote to a corpus's collection, keyed by path relative
+ * to the corpus directory
+ */
+export interface IndexManifest {
+  corpus: string;
+  files: Record<string, ManifestEntry>;
+}
+
+/**
+ * Hash recorded with every chunk of a file. It covers the schema version and
+ * embedding model as well as the content, so changing either re-embeds the file.
+ */
+export function hashContent(content: string, embeddingModel: string): string {
+  return createHash('sha256').update(`${INDEX_SCHEMA_VERSION}\n${embeddingModel}\n${content}`).digest('hex');
+}
+
+export function createManifest(corpus: string): IndexManifest {
+  return { corpus, files: {} };
+}
+
+/**
+ * Rebuilds a corpus's manifest from the chunks stored in its collection, which
+ * every indexer shares (a fresh CI runner, a webhook job or a laptop), so
+ * unchanged files are skipped and removed files found wherever the run happens.
+ * With `paths`, only those files are read.
+ */
+export async function loadManifest(store: VectorStore, corpus: string, paths?: string[]): Promise<IndexManifest> {
+  const manifest = createManifest(corpus);
+  const filter: Filter | undefined = paths ? { must: [{ key: 'metadata.path', match: { any: paths } }] } : undefined;
+
+  let offset: string | number | undefined;
+  do {
+    const page = await store.scroll({ filter, limit: SCROLL_PAGE_SIZE, offset });
+    for (const point of page.points) {
+      const metadata = point.payload?.metadata as { path?: string, chunkIndex?: number, fileHash?: string } | undefined;
+      if (!metadata?.path) {
+        continue;
+      }
+      const entry = manifest.files[metadata.path] ?? { hash: metadata.fileHash, chunks: 0 };
+      entry.chunks = Math.max(entry.chunks, (metadata.chunkIndex ?? 0) + 1);
+      // A file is only unchanged if every one of its chunks was written from the same content
+      if (entry.hash !== metadata.fileHash) {
+        entry.hash = undefined;
+      }
+      manifest.files[metadata.path] = entry;
+    }
+    offset = page.nextOffset;
+  } while (offset !== undefined);
+
+  return manifest;
+}
+
+function writeAtomically(file: string, content: string): void {
+  const tmp = `${file}.tmp`;
+  writeFileSync(tmp, content);
+  renameSync(tmp, file);
+}
+
+/**
+ * Progress of an indexing run, kept until the run finishes so a crashed run
+ * (including a forced or recreating one) can resume instead of starting over
+ */
+export interface IndexCheckpoint {
+  corpus: string;
+  /** Identifies the run's options; a checkpoint only resumes an identical run */
+  runKey: string;
+  startedAt: string;
+  completed: string[];
+  /**
+   * Set before the run first writes to the collection, so that a resumed run
+   * records a new index version even when the interrupted one made every change
+   */
+  changed?: boolean;
+}
+
+/**
+ * Each corpus has its own checkpoint, `.index-checkpoint.<corpus>.json` under
+ * INDEX_CHECKPOINT_DIR (default: the working directory)
+ */
+export function getCheckpointPath(corpus: string): string {
+  return path.join(process.env.INDEX_CHECKPOINT_DIR || process.cwd(), `.index-checkpoint.${corpus}.json`);
+}
+
+export function loadCheckpoint(corpus: string): IndexCheckpoint | undefined {
+  const file = getCheckpointPath(corpus);
+  return existsSync(file) ? JSON.parse(readFileSync(file, 'utf-8')) as IndexCheckpoint : undefined;
+}
+
+export function saveCheckpoint(checkpoint: IndexCheckpoint): void {
+  writeAtomically(getCheckpointPath(checkpoint.corpus), JSON.stringify(checkpoint));
+}
+
+export function clearCheckpoint(corpus: string): void {
+  rmSync(getCheckpointPath(corpus), { force: true });
+}
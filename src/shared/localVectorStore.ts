@@ -0,0 +1,276 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, statSync, writeFileSync } from 'fs';
+import path from 'path';
+import { SparseVector } from './sparse.js';
+import type {
+  CollectionInfo,
+  Condition,
+  Filter,
+  IndexState,
+  MatchValue,
+  PointInput,
+  ScoredPoint,
+  ScrollOptions,
+  ScrollPage,
+  SearchOptions,
+  StoredPoint,
+  VectorStore,
+} from './vectorStore.js';
+
+interface LocalPoint {
+  dense: number[];
+  sparse?: SparseVector;
+  payload: Record<string, unknown>;
+}
+
+interface LocalCollection {
+  denseSize: number;
+  points: Record<string, LocalPoint>;
+  indexState?: IndexState;
+}
+
+function getPayloadValue(payload: Record<string, unknown> | null | undefined, key: string): unknown {
+  let value: unknown = payload;
+  for (const part of key.split('.')) {
+    if (value === null || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+function toComparable(value: unknown): number {
+  return typeof value === 'string' ? Date.parse(value) : Number(value);
+}
+
+/**
+ * Evaluates one condition with Qdrant's semantics: a condition on an array
+ * field matches if any element matches.
+ */
+function matchesCondition(id: string, payload: Record<string, unknown>, condition: Condition): boolean {
+  if ('has_id' in condition) {
+    return condition.has_id.map(String).includes(id);
+  }
+  if (!('key' in condition)) {
+    return matchesFilter(id, payload, condition);
+  }
+
+  const raw = getPayloadValue(payload, condition.key);
+  const values = Array.isArray(raw) ? raw : [raw];
+
+  if ('match' in condition) {
+    const match = condition.match;
+    if ('value' in match) {
+      return values.some((value) => value === match.value);
+    }
+    if ('any' in match) {
+      return values.some((value) => match.any.includes(value as MatchValue));
+    }
+    return values.some((value) => typeof value === 'string' && value.includes(match.text));
+  }
+
+  const { gt, gte, lt, lte } = condition.range;
+  return values.some((value) => {
+    if (value === undefined || value === null) {
+      return false;
+    }
+    const n = toComparable(value);
+    return (gt === undefined || n > toComparable(gt))
+      && (gte === undefined || n >= toComparable(gte))
+      && (lt === undefined || n < toComparable(lt))
+      && (lte === undefined || n <= toComparable(lte));
+  });
+}
+
+function matchesFilter(id: string, payload: Record<string, unknown>, filter: Filter | undefined): boolean {
+  if (!filter) {
+    return true;
+  }
+  const { must = [], should = [], must_not = [] } = filter;
+  return must.every((c) => matchesCondition(id, payload, c))
+    && (should.length === 0 || should.some((c) => matchesCondition(id, payload, c)))
+    && !must_not.some((c) => matchesCondition(id, payload, c));
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Embedded vector store that keeps one collection in a JSON file and searches it
+ * by brute force. Good for local development, tests and small corpora; it needs
+ * no database. The file is reloaded whenever another process (e.g. the indexer)
+ * has rewritten it.
+ *
+ * Upserts and deletes only change the copy in memory until `flush()`, so an
+ * indexing run rewrites the file once per checkpoint rather than once per file.
+ */
+export class LocalVectorStore implements VectorStore {
+  private file: string;
+  private data?: LocalCollection;
+  private loadedAt = 0;
+  private dirty = false; // Upserts or deletes not written to the file yet
+
+  constructor(readonly collection: string, dir: string) {
+    this.file = path.join(dir, `${collection}.json`);
+  }
+
+  private load(): LocalCollection | undefined {
+    if (this.dirty) {
+      return this.data;
+    }
+    if (!existsSync(this.file)) {
+      this.data = undefined;
+      return undefined;
+    }
+    const mtime = statSync(this.file).mtimeMs;
+    if (!this.data || mtime !== this.loadedAt) {
+      this.data = JSON.parse(readFileSync(this.file, 'utf-8')) as LocalCollection;
+      this.loadedAt = mtime;
+    }
+    return this.data;
+  }
+
+  private requireData(): LocalCollection {
+    const data = this.load();
+    if (!data) {
+      throw new Error(`Collection ${this.collection} does not exist`);
+    }
+    return data;
+  }
+
+  private save(data: LocalCollection): void {
+    mkdirSync(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.tmp`;
+    writeFileSync(tmp, JSON.stringify(data));
+    renameSync(tmp, this.file);
+    this.data = data;
+    this.loadedAt = statSync(this.file).mtimeMs;
+    this.dirty = false;
+  }
+
+  private filtered(filter: Filter | undefined): [string, LocalPoint][] {
+    return Object.entries(this.requireData().points)
+      .filter(([id, point]) => matchesFilter(id, point.payload, filter));
+  }
+
+  async getCollection(): Promise<CollectionInfo | undefined> {
+    const data = this.load();
+    if (!data) {
+      return undefined;
+    }
+    return {
+      denseSize: data.denseSize,
+      hasSparse: true,
+      pointsCount: Object.keys(data.points).length,
+    };
+  }
+
+  async createCollection(denseSize: number): Promise<void> {
+    this.save({ denseSize, points: {} });
+  }
+
+  async deleteCollection(): Promise<void> {
+    rmSync(this.file, { force: true });
+    this.data = undefined;
+    this.dirty = false;
+  }
+
+  async createPayloadIndexes(): Promise<void> {
+    // Filters are evaluated by scanning, so there is nothing to index
+  }
+
+  async upsert(points: PointInput[]): Promise<void> {
+    const data = this.requireData();
+    for (const point of points) {
+      data.points[point.id] = { dense: point.dense, sparse: point.sparse, payload: point.payload };
+    }
+    this.dirty = true;
+  }
+
+  async searchDense(vector: number[], { limit, filter }: SearchOptions): Promise<ScoredPoint[]> {
+    return this.filtered(filter)
+      .map(([id, point]) => ({ id, score: cosine(vector, point.dense), payload: point.payload }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  async searchSparse(vector: SparseVector, { limit, filter }: SearchOptions): Promise<ScoredPoint[]> {
+    const points = Object.values(this.requireData().points);
+
+    // Same IDF as Qdrant's `idf` modifier, computed over the whole collection
+    const idf = new Map<number, number>();
+    for (const index of vector.indices) {
+      const df = points.filter((point) => point.sparse?.indices.includes(index)).length;
+      idf.set(index, Math.log((points.length - df + 0.5) / (df + 0.5) + 1));
+    }
+
+    return this.filtered(filter)
+      .map(([id, point]) => {
+        let score = 0;
+        point.sparse?.indices.forEach((index, i) => {
+          const q = vector.indices.indexOf(index);
+          if (q !== -1) {
+            score += vector.values[q] * idf.get(index)! * point.sparse!.values[i];
+          }
+        });
+        return { id, score, payload: point.payload };
+      })
+      .filter((point) => point.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  async retrieve(ids: (string | number)[]): Promise<StoredPoint[]> {
+    const data = this.requireData();
+    return ids
+      .map(String)
+      .filter((id) => data.points[id])
+      .map((id) => ({ id, payload: data.points[id].payload }));
+  }
+
+  async scroll({ filter, limit, offset }: ScrollOptions): Promise<ScrollPage> {
+    // Ordered by ID like Qdrant, with `offset` being the first ID of the page
+    const matching = this.filtered(filter).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    const start = offset === undefined ? 0 : matching.findIndex(([id]) => id >= String(offset));
+    const page = start === -1 ? [] : matching.slice(start, start + limit + 1);
+
+    return {
+      points: page.slice(0, limit).map(([id, point]) => ({ id, payload: point.payload })),
+      nextOffset: page.length > limit ? page[limit][0] : undefined,
+    };
+  }
+
+  async delete(selector: { ids: (string | number)[] } | { filter: Filter }): Promise<void> {
+    const data = this.requireData();
+    const ids = 'ids' in selector
+      ? selector.ids.map(String)
+      : this.filtered(selector.filter).map(([id]) => id);
+    for (const id of ids) {
+      delete data.points[id];
+    }
+    this.dirty = true;
+  }
+
+  async getIndexState(): Promise<IndexState | undefined> {
+    return this.load()?.indexState;
+  }
+
+  async setIndexState(state: IndexState): Promise<void> {
+    this.save({ ...this.requireData(), indexState: state });
+  }
+
+  async flush(): Promise<void> {
+    if (this.dirty && this.data) {
+      this.save(this.data);
+    }
+  }
+}
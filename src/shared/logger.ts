@@ -0,0 +1,229 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash, randomUUID } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { LoggingLevel, LoggingMessageNotification, SetLevelRequestSchema, isJSONRPCRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export type LogFields = Record<string, unknown>;
+
+// Syslog severities, as used by MCP's logging/setLevel
+const LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+/**
+ * Where an MCP session wants its log messages, and from which level
+ */
+interface McpLogSink {
+  level: LoggingLevel;
+  send(params: LoggingMessageNotification['params']): Promise<void>;
+}
+
+/**
+ * Correlation fields attached to every entry logged while handling a request
+ */
+interface LogContext {
+  requestId?: string;
+  sessionId?: string;
+  client?: string;
+  mcp?: McpLogSink;
+}
+
+const logContext = new AsyncLocalStorage<LogContext>();
+
+function isLevel(value: string | undefined): value is LoggingLevel {
+  return LEVELS.includes(value as LoggingLevel);
+}
+
+function atLeast(level: LoggingLevel, minimum: LoggingLevel): boolean {
+  return LEVELS.indexOf(level) >= LEVELS.indexOf(minimum);
+}
+
+/**
+ * LOG_LEVEL (default `info`), any of the MCP logging levels
+ */
+function getLogLevel(): LoggingLevel {
+  const level = process.env.LOG_LEVEL?.toLowerCase();
+  return isLevel(level) ? level : 'info';
+}
+
+/**
+ * MCP_LOG_LEVEL (default `warning`): the level sent to clients until they call logging/setLevel
+ */
+function getDefaultMcpLevel(): LoggingLevel {
+  const level = process.env.MCP_LOG_LEVEL?.toLowerCase();
+  return isLevel(level) ? level : 'warning';
+}
+
+function serializeError(error: Error, withStack: boolean): LogFields {
+  return withStack ? { name: error.name, message: error.message, stack: error.stack } : { name: error.name, message: error.message };
+}
+
+function serializeFields(fields: LogFields, withStack: boolean): LogFields {
+  return Object.fromEntries(Object.entries(fields).map(([key, value]) =>
+    [key, value instanceof Error ? serializeError(value, withStack) : value]
+  ));
+}
+
+function formatText(entry: LogFields): string {
+  const { time, level, logger, msg, ...fields } = entry;
+  const rest = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`);
+  return [time, String(level).toUpperCase(), `[${logger}]`, msg, ...rest].join(' ');
+}
+
+/**
+ * Leveled logger writing one JSON object per line (LOG_FORMAT=text for a
+ * human-readable line), tagged with the request and session being handled.
+ * Entries logged while handling an MCP message are also sent to that session
+ * as `notifications/message` when at or above the level it asked for.
+ */
+export class Logger {
+  constructor(readonly name: string, private fields: LogFields = {}) {}
+
+  child(fields: LogFields): Logger {
+    return new Logger(this.name, { ...this.fields, ...fields });
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  notice(message: string, fields?: LogFields): void {
+    this.log('notice', message, fields);
+  }
+
+  warning(message: string, fields?: LogFields): void {
+    this.log('warning', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  log(level: LoggingLevel, message: string, fields: LogFields = {}): void {
+    const context = logContext.getStore() ?? {};
+
+    if (atLeast(level, getLogLevel())) {
+      const entry = {
+        time: new Date().toISOString(),
+        level,
+        logger: this.name,
+        msg: message,
+        requestId: context.requestId,
+        sessionId: context.sessionId,
+        client: context.client,
+        ...this.fields,
+        ...serializeFields(fields, true),
+      };
+      const line = process.env.LOG_FORMAT === 'text' ? formatText(entry) : JSON.stringify(entry);
+      // Both go to stderr in stdio mode, where stdout carries the protocol
+      if (atLeast(level, 'warning')) {
+        console.error(line);
+      } else {
+        console.log(line);
+      }
+    }
+
+    const sink = context.mcp;
+    if (sink && atLeast(level, sink.level)) {
+      sink.send({
+        level,
+        logger: this.name,
+        data: { message, requestId: context.requestId, ...this.fields, ...serializeFields(fields, false) },
+      }).catch(() => {
+        // The session may have closed; there is nobody left to tell
+      });
+    }
+  }
+}
+
+export function createLogger(name: string): Logger {
+  return new Logger(name);
+}
+
+/**
+ * Adds correlation fields to the request being handled, e.g. once the
+ * session ID or the caller's API key is known
+ */
+export function setLogContext(fields: Omit<LogContext, 'mcp'>): void {
+  const context = logContext.getStore();
+  if (context) {
+    Object.assign(context, fields);
+  }
+}
+
+/**
+ * How user queries appear in logs, set by LOG_QUERIES: `hash` (default) logs
+ * a short SHA-256 so repeats can be correlated without the text, `full` logs
+ * the text and `off` logs neither
+ */
+export function redactQuery(query: string): string {
+  switch (process.env.LOG_QUERIES?.toLowerCase()) {
+    case 'full':
+      return query;
+    case 'off':
+      return '[redacted]';
+    default:
+      return `sha256:${createHash('sha256').update(query).digest('hex').slice(0, 12)}`;
+  }
+}
+
+const httpLogger = createLogger('http');
+
+/**
+ * Express middleware giving each request an ID (from X-Request-Id, or a new
+ * one echoed back in it) that every entry logged while handling it carries,
+ * and logging the request when it completes. Mount it after the body parser,
+ * which would otherwise lose the context.
+ */
+export function requestLogging(req: Request, res: Response, next: NextFunction): void {
+  const requestId = (req.headers['x-request-id'] as string | undefined) || randomUUID();
+  res.setHeader('X-Request-Id', requestId);
+  const sessionId = (req.headers['mcp-session-id'] as string | undefined) || (req.query.sessionId as string | undefined);
+  const context: LogContext = { requestId, sessionId };
+  const start = performance.now();
+
+  res.on('finish', () => logContext.run(context, () => {
+    httpLogger.info(`${req.method} ${req.path} ${res.statusCode}`, {
+      method: req.method,
+      path: req.path,
+      status: res.statusCode,
+      durationMs: Math.round(performance.now() - start),
+    });
+  }));
+  logContext.run(context, next);
+}
+
+/**
+ * Connects a server to a transport with MCP logging: the session's
+ * logging/setLevel requests are honoured, and entries logged while handling
+ * its messages are forwarded to it
+ */
+export async function connectWithLogging(server: McpServer, transport: Transport): Promise<void> {
+  let level = getDefaultMcpLevel();
+  server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    level = request.params.level;
+    return {};
+  });
+
+  await server.connect(transport);
+
+  const onmessage = transport.onmessage;
+  transport.onmessage = (message, extra) => {
+    // Tied to the request, so Streamable HTTP sends them on its response stream
+    const relatedRequestId = isJSONRPCRequest(message) ? message.id : undefined;
+    const sink: McpLogSink = {
+      get level() {
+        return level;
+      },
+      send: (params) => server.server.notification({ method: 'notifications/message', params }, { relatedRequestId }),
+    };
+    const context = logContext.getStore();
+    logContext.run({ ...context, sessionId: transport.sessionId ?? context?.sessionId, mcp: sink }, () => onmessage?.(message, extra));
+  };
+}
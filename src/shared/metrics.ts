@@ -0,0 +1,179 @@
+import type { Request, Response } from 'express';
+import { CacheStats } from './cache.js';
+
+type Labels = Record<string, string>;
+
+interface Sample {
+  labels: Labels;
+  value: number;
+  /** Appended to the metric name, e.g. `_bucket` */
+  suffix?: string;
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  collect(): Sample[];
+}
+
+const registry: Metric[] = [];
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+  return `{${entries.map(([name, value]) => `${name}="${escape(value)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  return Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : value < 0 ? '-Inf' : 'NaN';
+}
+
+export class Counter implements Metric {
+  readonly type = 'counter';
+  private values = new Map<string, Sample>();
+
+  constructor(readonly name: string, readonly help: string) {
+    registry.push(this);
+  }
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    const key = labelKey(labels);
+    const sample = this.values.get(key);
+    if (sample) {
+      sample.value += value;
+    } else {
+      this.values.set(key, { labels, value });
+    }
+  }
+
+  collect(): Sample[] {
+    return [...this.values.values()];
+  }
+}
+
+export class Histogram implements Metric {
+  readonly type = 'histogram';
+  private series = new Map<string, { labels: Labels, counts: number[], sum: number, count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private buckets: number[]) {
+    registry.push(this);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: new Array(this.buckets.length).fill(0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        series!.counts[i]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Runs `fn` and observes how long it took in seconds, whether or not it succeeded
+   */
+  async time<T>(labels: Labels, fn: () => Promise<T>): Promise<T> {
+    const start = performance.now();
+    try {
+      return await fn();
+    } finally {
+      this.observe(labels, (performance.now() - start) / 1000);
+    }
+  }
+
+  collect(): Sample[] {
+    return [...this.series.values()].flatMap(({ labels, counts, sum, count }) => [
+      ...this.buckets.map((bound, i) => ({ labels: { ...labels, le: formatValue(bound) }, value: counts[i], suffix: '_bucket' })),
+      { labels: { ...labels, le: '+Inf' }, value: count, suffix: '_bucket' },
+      { labels, value: sum, suffix: '_sum' },
+      { labels, value: count, suffix: '_count' },
+    ]);
+  }
+}
+
+/**
+ * A metric whose samples are read when scraped, for state kept elsewhere
+ */
+export class CollectedMetric implements Metric {
+  constructor(readonly name: string, readonly help: string, readonly type: 'counter' | 'gauge', readonly collect: () => Sample[]) {
+    registry.push(this);
+  }
+}
+
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+export const toolCalls = new Counter('mcp_tool_calls_total', 'Tool calls by tool and outcome (success, error, rate_limited, quota_exceeded)');
+export const toolCallDuration = new Histogram('mcp_tool_call_duration_seconds', 'Tool call latency by tool', LATENCY_BUCKETS);
+export const embeddingDuration = new Histogram('mcp_embedding_duration_seconds', 'Latency of query embedding requests (cache misses) by provider', LATENCY_BUCKETS);
+export const embeddingErrors = new Counter('mcp_embedding_errors_total', 'Failed query embedding requests by provider');
+export const vectorSearchDuration = new Histogram('mcp_vector_search_duration_seconds', 'Vector store search latency by collection and kind (dense or sparse)', LATENCY_BUCKETS);
+export const reranks = new Counter('mcp_rerank_total', 'Rerank attempts by reranker and outcome; on failure the retrieval order is served instead');
+export const rerankDuration = new Histogram('mcp_rerank_duration_seconds', 'Rerank latency by reranker', LATENCY_BUCKETS);
+// Hybrid scores are RRF values around 0.01-0.03, semantic ones cosine similarities and keyword ones BM25 scores
+export const resultScores = new Histogram('mcp_search_result_score', 'Retrieval scores of returned search results by mode',
+  [0.01, 0.02, 0.03, 0.05, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1, 2, 5, 10, 20]);
+export const rerankScores = new Histogram('mcp_search_rerank_score', 'Rerank scores of returned search results by reranker',
+  [-10, -5, -2, 0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1, 2, 5, 10]);
+
+/**
+ * Wraps a tool handler to count its calls by outcome and time them. A result
+ * with `isError` counts as an error, as does a thrown exception.
+ */
+export function instrumentTool<A extends unknown[], R extends { isError?: boolean }>(tool: string, handler: (...args: A) => Promise<R>): (...args: A) => Promise<R> {
+  return async (...args: A) => {
+    let outcome = 'error';
+    try {
+      const result = await toolCallDuration.time({ tool }, () => handler(...args));
+      outcome = result.isError ? 'error' : 'success';
+      return result;
+    } finally {
+      toolCalls.inc({ tool, outcome });
+    }
+  };
+}
+
+/**
+ * Exposes a server's caches as hit, miss and size metrics
+ */
+export function registerCacheMetrics(caches: Record<string, () => CacheStats>): void {
+  const samples = (field: keyof CacheStats) => () =>
+    Object.entries(caches).map(([cache, stats]) => ({ labels: { cache }, value: stats()[field] }));
+  new CollectedMetric('mcp_cache_hits_total', 'Cache hits by cache', 'counter', samples('hits'));
+  new CollectedMetric('mcp_cache_misses_total', 'Cache misses by cache', 'counter', samples('misses'));
+  new CollectedMetric('mcp_cache_entries', 'Entries held by cache', 'gauge', samples('size'));
+}
+
+/**
+ * Renders every registered metric in the Prometheus text exposition format
+ */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const metric of registry) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`);
+    for (const { labels, value, suffix = '' } of metric.collect()) {
+      lines.push(`${metric.name}${suffix}${formatLabels(labels)} ${formatValue(value)}`);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Express handler for GET /metrics
+ */
+export function metricsHandler(_req: Request, res: Response): void {
+  res.type('text/plain; version=0.0.4').send(renderMetrics());
+}
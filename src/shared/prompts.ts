@@ -0,0 +1,204 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { Embedder } from './embedder.js';
+import { Reranker } from './reranker.js';
+import { searchDocs } from './search.js';
+import { getCorpusByCollection, getCorpusStore, getSourceUrl, selectCorpora } from './corpora.js';
+import { expandContext } from './documents.js';
+import { getDocumentUri } from './resources.js';
+import { PROMPT_TOOL, canCallTool, getReadableCorpora, scopeCorpora } from './auth.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { createLogger, redactQuery } from './logger.js';
+
+/**
+ * Excerpts retrieved per query: PROMPT_RESULTS (default 5). Each is merged
+ * with PROMPT_CONTEXT_CHUNKS neighbouring chunks on either side.
+ */
+function getPromptResults(): number {
+  return Number(process.env.PROMPT_RESULTS) || 5;
+}
+
+const PROMPT_CONTEXT_CHUNKS = 1;
+
+const logger = createLogger('prompts');
+
+interface Excerpt {
+  uri: string;
+  title: string;
+  url: string;
+  text: string;
+}
+
+interface ExcerptPayload {
+  metadata?: {
+    path?: string;
+    section?: string;
+    title?: string;
+  };
+}
+
+// The SDK's prompt argument types do not admit an optional completable argument,
+// though it handles one at runtime. Completes the corpora the key may read.
+const corpusArgument = (authInfo: AuthInfo | undefined) => completable(
+  z.string().optional().describe("Documentation corpus to ground the answer in; all when omitted"),
+  (value) => getReadableCorpora(authInfo).map((c) => c.name).filter((name) => name.startsWith(value ?? ""))
+) as unknown as z.ZodOptional<z.ZodString>;
+
+/**
+ * Runs each query through the same retrieval as the search tool and returns
+ * the distinct hits, expanded with their neighbouring chunks
+ */
+async function retrieveExcerpts(embedder: Embedder, reranker: Reranker | undefined, queries: string[], corpus: string | undefined, authInfo: AuthInfo | undefined): Promise<Excerpt[]> {
+  const stores = scopeCorpora(selectCorpora(corpus), authInfo).map(getCorpusStore);
+  const seen = new Set<string>();
+  const excerpts: Excerpt[] = [];
+
+  for (const query of queries) {
+    const hits = await searchDocs(stores, embedder, reranker, { query, limit: getPromptResults(), mode: "hybrid" });
+    for (const hit of hits) {
+      const key = `${hit.collection}:${hit.id}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      const hitCorpus = getCorpusByCollection(hit.collection);
+      const { path = "", section = "", title } = (hit.payload as ExcerptPayload | null | undefined)?.metadata ?? {};
+      excerpts.push({
+        uri: getDocumentUri({ corpus: hitCorpus, path, section }),
+        title: title || path || "Untitled",
+        url: getSourceUrl(hitCorpus, path),
+        text: await expandContext(hitCorpus, hit, PROMPT_CONTEXT_CHUNKS),
+      });
+    }
+  }
+  return excerpts;
+}
+
+/**
+ * Builds the prompt's messages: one embedded resource per numbered excerpt,
+ * followed by the task and instructions to cite excerpts by number
+ */
+function buildMessages(excerpts: Excerpt[], task: string): GetPromptResult["messages"] {
+  const citations = excerpts.length > 0
+    ? "Answer only from the numbered documentation excerpts above. Cite every claim with the excerpt number in brackets, e.g. [1], and end with a Sources list of the cited excerpts' URLs. If the excerpts do not cover something, say so rather than guessing."
+    : "No documentation matched this request. Say that the documentation does not appear to cover it, and suggest search terms the user could try.";
+
+  return [
+    ...excerpts.map((excerpt, i) => ({
+      role: "user" as const,
+      content: {
+        type: "resource" as const,
+        resource: {
+          uri: excerpt.uri,
+          mimeType: "text/markdown",
+          text: `[${i + 1}] ${excerpt.title}\nSource: ${excerpt.url}\n\n${excerpt.text}`,
+        },
+      },
+    })),
+    {
+      role: "user" as const,
+      content: {
+        type: "text" as const,
+        text: `${task}\n\n${citations}`,
+      },
+    },
+  ];
+}
+
+/**
+ * Registers prompts for common documentation questions. Each retrieves
+ * excerpts server-side and embeds them as resources the answer must cite, so
+ * none are registered for a session whose key (`authInfo`) may not search.
+ */
+export function registerDocPrompts(server: McpServer, embedder: Embedder, reranker: Reranker | undefined, authInfo?: AuthInfo): void {
+  if (!canCallTool(authInfo, PROMPT_TOOL)) {
+    return;
+  }
+
+  server.registerPrompt(
+    "explain-concept",
+    {
+      title: "Explain a Concept",
+      description: "Explain a concept from the documentation, grounded in retrieved excerpts",
+      argsSchema: {
+        concept: z.string().describe("The concept to explain, e.g. restaking vaults"),
+        corpus: corpusArgument(authInfo),
+      },
+    },
+    async ({ concept, corpus }, extra) => {
+      logger.info("Building prompt", { prompt: "explain-concept", concept: redactQuery(concept), corpus });
+      const excerpts = await retrieveExcerpts(embedder, reranker, [concept], corpus, extra.authInfo);
+      return {
+        description: `Explain ${concept}`,
+        messages: buildMessages(excerpts, `Explain "${concept}": what it is, why it exists and how it relates to the surrounding concepts.`),
+      };
+    }
+  );
+
+  server.registerPrompt(
+    "how-to",
+    {
+      title: "How To",
+      description: "Step-by-step instructions for a task, grounded in retrieved excerpts",
+      argsSchema: {
+        task: z.string().describe("What the user wants to do, e.g. stake SOL for JitoSOL"),
+        corpus: corpusArgument(authInfo),
+      },
+    },
+    async ({ task, corpus }, extra) => {
+      logger.info("Building prompt", { prompt: "how-to", task: redactQuery(task), corpus });
+      const excerpts = await retrieveExcerpts(embedder, reranker, [`how to ${task}`], corpus, extra.authInfo);
+      return {
+        description: `How to ${task}`,
+        messages: buildMessages(excerpts, `Give step-by-step instructions to ${task}. List prerequisites first and include the exact commands, accounts or parameters the documentation gives.`),
+      };
+    }
+  );
+
+  server.registerPrompt(
+    "troubleshoot-error",
+    {
+      title: "Troubleshoot an Error",
+      description: "Diagnose an error message, grounded in retrieved excerpts",
+      argsSchema: {
+        error: z.string().describe("The error message or symptom"),
+        context: z.string().optional().describe("What the user was doing when the error occurred"),
+        corpus: corpusArgument(authInfo),
+      },
+    },
+    async ({ error, context, corpus }, extra) => {
+      logger.info("Building prompt", { prompt: "troubleshoot-error", error: redactQuery(error), corpus });
+      const queries = context ? [error, `${context} ${error}`] : [error];
+      const excerpts = await retrieveExcerpts(embedder, reranker, queries, corpus, extra.authInfo);
+      const situation = context ? `\n\nThe user was: ${context}` : "";
+      return {
+        description: `Troubleshoot: ${error}`,
+        messages: buildMessages(excerpts, `Help troubleshoot this error:\n\n\`\`\`\n${error}\n\`\`\`${situation}\n\nExplain the likely causes, then the fixes, most likely first.`),
+      };
+    }
+  );
+
+  server.registerPrompt(
+    "compare",
+    {
+      title: "Compare",
+      description: "Compare two concepts, products or approaches, grounded in retrieved excerpts",
+      argsSchema: {
+        first: z.string().describe("The first thing to compare"),
+        second: z.string().describe("The second thing to compare"),
+        corpus: corpusArgument(authInfo),
+      },
+    },
+    async ({ first, second, corpus }, extra) => {
+      logger.info("Building prompt", { prompt: "compare", first: redactQuery(first), second: redactQuery(second), corpus });
+      const excerpts = await retrieveExcerpts(embedder, reranker, [first, second, `${first} vs ${second}`], corpus, extra.authInfo);
+      return {
+        description: `Compare ${first} and ${second}`,
+        messages: buildMessages(excerpts, `Compare "${first}" and "${second}": what each is for, how they differ and when to choose one over the other. Finish with a short comparison table.`),
+      };
+    }
+  );
+}
@@ -0,0 +1,191 @@
+import { QdrantClient, Schemas } from '@qdrant/js-client-rest';
+import { SPARSE_VECTOR_NAME, SparseVector } from './sparse.js';
+import type {
+  CollectionInfo,
+  Filter,
+  IndexState,
+  PointInput,
+  ScoredPoint,
+  ScrollOptions,
+  ScrollPage,
+  SearchOptions,
+  StoredPoint,
+  VectorStore,
+} from './vectorStore.js';
+
+export const DENSE_VECTOR_NAME = 'dense';
+
+type QdrantFilter = Schemas['Filter'];
+
+// Payload fields that search filters use, with the index type each needs
+const FILTERABLE_FIELDS: Record<string, Schemas['PayloadSchemaType']> = {
+  'metadata.section': 'keyword',
+  'metadata.path': 'keyword',
+  'metadata.pathPrefixes': 'keyword',
+  'metadata.tags': 'keyword',
+  'metadata.lastUpdated': 'datetime',
+  'metadata.docId': 'keyword',
+  'metadata.chunkIndex': 'integer',
+};
+
+// The index state is kept in the payload of a point with no vectors. Searches
+// never return it, and the store leaves it out of counts, retrieval, scrolling
+// and deletion by filter.
+const INDEX_STATE_POINT_ID = '00000000-0000-0000-0000-000000000000';
+
+function excludeIndexState(filter: Filter | undefined): QdrantFilter {
+  return { ...filter, must_not: [...filter?.must_not ?? [], { has_id: [INDEX_STATE_POINT_ID] }] } as QdrantFilter;
+}
+
+/**
+ * Vector store backed by a Qdrant collection with a named dense vector and a
+ * named BM25 sparse vector (using Qdrant's `idf` modifier)
+ */
+export class QdrantVectorStore implements VectorStore {
+  private client: QdrantClient;
+
+  constructor(readonly collection: string, client?: QdrantClient) {
+    this.client = client || new QdrantClient({
+      url: process.env.QDRANT_URL || 'http://localhost:6333',
+      apiKey: process.env.QDRANT_API_KEY,
+    });
+  }
+
+  async getCollection(): Promise<CollectionInfo | undefined> {
+    // Asked first so an unreachable Qdrant fails instead of looking like a missing collection
+    const { exists } = await this.client.collectionExists(this.collection);
+    if (!exists) {
+      return undefined;
+    }
+    const info = await this.client.getCollection(this.collection);
+    const statePoints = await this.client.retrieve(this.collection, {
+      ids: [INDEX_STATE_POINT_ID],
+      with_payload: false,
+      with_vector: false,
+    });
+
+    const vectors = info.config.params.vectors as Record<string, { size?: number }> | undefined;
+    return {
+      denseSize: vectors?.[DENSE_VECTOR_NAME]?.size,
+      hasSparse: Boolean(info.config.params.sparse_vectors?.[SPARSE_VECTOR_NAME]),
+      pointsCount: Math.max(0, (info.points_count ?? 0) - statePoints.length),
+    };
+  }
+
+  async createCollection(denseSize: number): Promise<void> {
+    await this.client.createCollection(this.collection, {
+      vectors: {
+        [DENSE_VECTOR_NAME]: {
+          size: denseSize,
+          distance: 'Cosine',
+        },
+      },
+      sparse_vectors: {
+        [SPARSE_VECTOR_NAME]: {
+          modifier: 'idf', // Qdrant applies the IDF half of BM25
+        },
+      },
+    });
+  }
+
+  async deleteCollection(): Promise<void> {
+    await this.client.deleteCollection(this.collection);
+  }
+
+  async createPayloadIndexes(): Promise<void> {
+    for (const [field, schema] of Object.entries(FILTERABLE_FIELDS)) {
+      await this.client.createPayloadIndex(this.collection, {
+        field_name: field,
+        field_schema: schema,
+        wait: true,
+      });
+    }
+  }
+
+  async upsert(points: PointInput[]): Promise<void> {
+    await this.client.upsert(this.collection, {
+      points: points.map((point) => ({
+        id: point.id,
+        vector: point.sparse
+          ? { [DENSE_VECTOR_NAME]: point.dense, [SPARSE_VECTOR_NAME]: point.sparse }
+          : { [DENSE_VECTOR_NAME]: point.dense },
+        payload: point.payload,
+      })),
+    });
+  }
+
+  async searchDense(vector: number[], { limit, filter }: SearchOptions): Promise<ScoredPoint[]> {
+    return await this.client.search(this.collection, {
+      vector: { name: DENSE_VECTOR_NAME, vector },
+      limit,
+      filter: filter as QdrantFilter,
+      with_payload: true,
+      with_vector: false,
+    });
+  }
+
+  async searchSparse(vector: SparseVector, { limit, filter }: SearchOptions): Promise<ScoredPoint[]> {
+    return await this.client.search(this.collection, {
+      vector: { name: SPARSE_VECTOR_NAME, vector },
+      limit,
+      filter: filter as QdrantFilter,
+      with_payload: true,
+      with_vector: false,
+    });
+  }
+
+  async retrieve(ids: (string | number)[]): Promise<StoredPoint[]> {
+    const documentIds = ids.filter((id) => String(id) !== INDEX_STATE_POINT_ID);
+    if (documentIds.length === 0) {
+      return [];
+    }
+    return await this.client.retrieve(this.collection, {
+      ids: documentIds,
+      with_payload: true,
+      with_vector: false,
+    });
+  }
+
+  async scroll({ filter, limit, offset }: ScrollOptions): Promise<ScrollPage> {
+    const page = await this.client.scroll(this.collection, {
+      filter: excludeIndexState(filter),
+      limit,
+      offset,
+      with_payload: true,
+      with_vector: false,
+    });
+
+    const nextOffset = page.next_page_offset;
+    return {
+      points: page.points,
+      nextOffset: typeof nextOffset === 'string' || typeof nextOffset === 'number' ? nextOffset : undefined,
+    };
+  }
+
+  async delete(selector: { ids: (string | number)[] } | { filter: Filter }): Promise<void> {
+    if ('ids' in selector) {
+      await this.client.delete(this.collection, { points: selector.ids });
+    } else {
+      await this.client.delete(this.collection, { filter: excludeIndexState(selector.filter) });
+    }
+  }
+
+  async getIndexState(): Promise<IndexState | undefined> {
+    const [point] = await this.client.retrieve(this.collection, {
+      ids: [INDEX_STATE_POINT_ID],
+      with_payload: true,
+      with_vector: false,
+    });
+    return point?.payload?.indexState as IndexState | undefined;
+  }
+
+  async setIndexState(state: IndexState): Promise<void> {
+    await this.client.upsert(this.collection, {
+      points: [{ id: INDEX_STATE_POINT_ID, vector: {}, payload: { indexState: state } }],
+    });
+  }
+
+  async flush(): Promise<void> {
+    // Every write is applied by Qdrant before it returns
+  }
+}
@@ -0,0 +1,187 @@
+import type { NextFunction, Request, Response } from 'express';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { RateLimit, getMeteredCalls, getScope, sendJsonRpcError } from './auth.js';
+import { UsageLedger } from './usageLedger.js';
+import { toolCalls } from './metrics.js';
+import { createLogger } from './logger.js';
+
+// JSON-RPC error codes for tool calls refused by the limiter, sent with HTTP 429
+export const RATE_LIMITED_ERROR_CODE = -32029;
+export const QUOTA_EXCEEDED_ERROR_CODE = -32030;
+
+const SWEEP_INTERVAL_MS = 60_000;
+
+const logger = createLogger('rate-limit');
+
+/**
+ * Refills continuously at `perMinute` tokens a minute up to `capacity`
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(readonly capacity: number, private perMinute: number) {
+    this.tokens = capacity;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.perMinute / 60_000);
+    this.updatedAt = now;
+  }
+
+  /**
+   * Takes `count` tokens and returns 0, or returns how many milliseconds to
+   * wait until they are available and takes nothing
+   */
+  take(count: number): number {
+    this.refill();
+    if (this.tokens >= count) {
+      this.tokens -= count;
+      return 0;
+    }
+    return Math.ceil((count - this.tokens) * 60_000 / this.perMinute);
+  }
+
+  isFull(): boolean {
+    this.refill();
+    return this.tokens >= this.capacity;
+  }
+}
+
+function envLimit(name: string, fallback: number): number {
+  const value = process.env[name];
+  return value ? Number(value) : fallback;
+}
+
+/**
+ * The limits for a caller: its API key's `rateLimit`, falling back to
+ * RATE_LIMIT_PER_MINUTE (default 60), RATE_LIMIT_BURST (default 20) and
+ * DAILY_QUOTA (default 5000). 0 disables a limit.
+ */
+function getLimit(authInfo: AuthInfo | undefined): Required<RateLimit> {
+  const override = getScope(authInfo)?.rateLimit;
+  return {
+    perMinute: override?.perMinute ?? envLimit('RATE_LIMIT_PER_MINUTE', 60),
+    burst: override?.burst ?? envLimit('RATE_LIMIT_BURST', 20),
+    dailyQuota: override?.dailyQuota ?? envLimit('DAILY_QUOTA', 5000),
+  };
+}
+
+/**
+ * Identifies the caller for limits and usage: its API key when authenticated,
+ * otherwise its IP address (see TRUST_PROXY). The session is left out on
+ * purpose, so a client cannot multiply its limits by opening more sessions.
+ */
+export function getClientId(req: Request): string {
+  const scope = getScope((req as Request & { auth?: AuthInfo }).auth);
+  return scope ? `key:${scope.name}` : `ip:${req.ip ?? 'unknown'}`;
+}
+
+/**
+ * Express's `trust proxy` setting from TRUST_PROXY, so `req.ip` is the client's
+ * address rather than the load balancer's: a hop count, `true`, or a list of
+ * trusted addresses
+ */
+export function getTrustProxy(): boolean | number | string {
+  const value = process.env.TRUST_PROXY;
+  if (!value || value === 'false') {
+    return false;
+  }
+  if (value === 'true') {
+    return true;
+  }
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
+const buckets = new Map<string, TokenBucket>();
+let ledger: UsageLedger | undefined;
+
+// Full buckets carry no state worth keeping, so idle clients cost no memory
+setInterval(() => {
+  for (const [client, bucket] of buckets) {
+    if (bucket.isFull()) {
+      buckets.delete(client);
+    }
+  }
+}, SWEEP_INTERVAL_MS).unref();
+
+/**
+ * The ledger recording every tool call the HTTP endpoints serve, saved on
+ * exit. The servers exit on SIGTERM and SIGINT so that it is.
+ */
+export function getUsageLedger(): UsageLedger {
+  if (!ledger) {
+    const created = ledger = new UsageLedger();
+    process.on('exit', () => created.save());
+  }
+  return ledger;
+}
+
+function getBucket(client: string, limit: Required<RateLimit>): TokenBucket {
+  const capacity = Math.max(limit.burst, 1);
+  let bucket = buckets.get(client);
+  if (!bucket || bucket.capacity !== capacity) {
+    bucket = new TokenBucket(capacity, limit.perMinute);
+    buckets.set(client, bucket);
+  }
+  return bucket;
+}
+
+function getNextMidnight(): Date {
+  const midnight = new Date();
+  midnight.setUTCHours(24, 0, 0, 0);
+  return midnight;
+}
+
+/**
+ * Express middleware for the MCP endpoints, after requireApiKey: limits each
+ * client's tool calls with a token bucket and a daily quota, answering HTTP 429
+ * with a JSON-RPC error and Retry-After when either is exhausted, and records
+ * served calls in the usage ledger. A prompts/get counts as a call of the
+ * search tool, whose retrieval it runs. Other requests pass untouched.
+ */
+export function rateLimitToolCalls(req: Request, res: Response, next: NextFunction): void {
+  const calls = getMeteredCalls(req);
+  if (calls.length === 0) {
+    next();
+    return;
+  }
+
+  const client = getClientId(req);
+  const limit = getLimit((req as Request & { auth?: AuthInfo }).auth);
+  const usage = getUsageLedger();
+  const id = calls[0].id;
+
+  if (limit.dailyQuota > 0 && usage.callsToday(client) + calls.length > limit.dailyQuota) {
+    const resetAt = getNextMidnight();
+    logger.notice('Rejected tool call: daily quota exhausted', { quota: limit.dailyQuota });
+    usage.recordRejected(client);
+    calls.forEach(({ tool }) => toolCalls.inc({ tool, outcome: 'quota_exceeded' }));
+    res.setHeader('Retry-After', Math.ceil((resetAt.getTime() - Date.now()) / 1000));
+    sendJsonRpcError(res, 429, QUOTA_EXCEEDED_ERROR_CODE,
+      `Daily quota of ${limit.dailyQuota} tool calls exceeded; it resets at ${resetAt.toISOString()}`, id,
+      { quota: limit.dailyQuota, resetAt: resetAt.toISOString() });
+    return;
+  }
+
+  if (limit.perMinute > 0) {
+    const bucket = getBucket(client, limit);
+    const waitMs = bucket.take(Math.min(calls.length, bucket.capacity));
+    if (waitMs > 0) {
+      logger.notice('Rejected tool call: rate limit exceeded', { perMinute: limit.perMinute, retryAfterMs: waitMs });
+      usage.recordRejected(client);
+      calls.forEach(({ tool }) => toolCalls.inc({ tool, outcome: 'rate_limited' }));
+      res.setHeader('Retry-After', Math.ceil(waitMs / 1000));
+      sendJsonRpcError(res, 429, RATE_LIMITED_ERROR_CODE,
+        `Rate limit of ${limit.perMinute} tool calls per minute exceeded; retry in ${Math.ceil(waitMs / 1000)}s`, id,
+        { retryAfterMs: waitMs });
+      return;
+    }
+  }
+
+  for (const { tool } of calls) {
+    usage.record(client, tool);
+  }
+  next();
+}
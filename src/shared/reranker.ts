@@ -0,0 +1,155 @@
+import type { PreTrainedModel, PreTrainedTokenizer } from '@xenova/transformers';
+import { loadTransformers } from './transformers.js';
+import { QUERY_RETRY, withRetry } from './retry.js';
+
+/**
+ * Scores how relevant each document is to a query. Scores are returned in
+ * document order; only their relative order matters.
+ */
+export interface Reranker {
+  readonly name: string;
+  rerank(query: string, documents: string[]): Promise<number[]>;
+}
+
+interface JinaRerankResult {
+  index: number;
+  relevance_score: number;
+}
+
+interface JinaRerankResponse {
+  model: string;
+  usage: {
+    total_tokens: number;
+  };
+  results: JinaRerankResult[];
+}
+
+/**
+ * A failed response from the Jina API, with what withRetry needs to decide
+ * whether and when to try again
+ */
+class JinaApiError extends Error {
+  constructor(message: string, readonly status: number, readonly headers: Headers) {
+    super(message);
+    this.name = 'JinaApiError';
+  }
+}
+
+/**
+ * Each Jina reranking request is abandoned after RERANK_TIMEOUT_MS (default 5 seconds)
+ */
+function getRerankTimeoutMs(): number {
+  return Number(process.env.RERANK_TIMEOUT_MS) || 5000;
+}
+
+export const DEFAULT_JINA_MODEL = 'jina-reranker-v1-turbo-en';
+export const DEFAULT_CROSS_ENCODER_MODEL = 'Xenova/ms-marco-MiniLM-L-6-v2';
+
+/**
+ * Reranks through Jina AI's cloud reranking API. A search waits on it, so
+ * requests time out and are retried as briefly as query embeddings.
+ */
+export class JinaReranker implements Reranker {
+  readonly name = 'jina';
+
+  constructor(private apiKey: string, private model: string = DEFAULT_JINA_MODEL) {}
+
+  async rerank(query: string, documents: string[]): Promise<number[]> {
+    const jinaResponse = await withRetry(() => this.request(query, documents), { ...QUERY_RETRY, label: 'Jina reranking' });
+    const scores = new Array<number>(documents.length).fill(-Infinity);
+    for (const result of jinaResponse.results) {
+      scores[result.index] = result.relevance_score;
+    }
+    return scores;
+  }
+
+  private async request(query: string, documents: string[]): Promise<JinaRerankResponse> {
+    const response = await fetch('https://api.jina.ai/v1/rerank', {
+      method: 'POST',
+      signal: AbortSignal.timeout(getRerankTimeoutMs()),
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        query,
+        documents,
+        top_n: documents.length,
+        return_documents: false,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new JinaApiError(`Jina AI reranking failed: ${response.status} ${response.statusText}`, response.status, response.headers);
+    }
+    return await response.json() as JinaRerankResponse;
+  }
+}
+
+/**
+ * Reranks in-process with a cross-encoder (an MS MARCO MiniLM model by default)
+ * via @xenova/transformers, so reranking works offline
+ */
+export class CrossEncoderReranker implements Reranker {
+  readonly name = 'local';
+  private loaded?: Promise<{ tokenizer: PreTrainedTokenizer, model: PreTrainedModel }>;
+
+  constructor(private model: string = DEFAULT_CROSS_ENCODER_MODEL) {}
+
+  private load() {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        const { AutoTokenizer, AutoModelForSequenceClassification } = await loadTransformers();
+        const [tokenizer, model] = await Promise.all([
+          AutoTokenizer.from_pretrained(this.model),
+          AutoModelForSequenceClassification.from_pretrained(this.model),
+        ]);
+        return { tokenizer, model };
+      })();
+      // Allow a retry if loading the model failed
+      this.loaded.catch(() => { this.loaded = undefined; });
+    }
+    return this.loaded;
+  }
+
+  async rerank(query: string, documents: string[]): Promise<number[]> {
+    if (documents.length === 0) {
+      return [];
+    }
+
+    const { tokenizer, model } = await this.load();
+    const inputs = tokenizer(new Array(documents.length).fill(query), {
+      text_pair: documents,
+      padding: true,
+      truncation: true,
+    });
+    const { logits } = await model(inputs);
+    return (logits.tolist() as number[][]).map(([logit]) => logit);
+  }
+}
+
+/**
+ * Creates the reranker selected by RERANKER: `jina` (needs JINA_API_KEY),
+ * `local` (cross-encoder, RERANKER_MODEL to override) or `none`. Defaults to
+ * Jina when JINA_API_KEY is set and to no reranking otherwise.
+ */
+export function createReranker(): Reranker | undefined {
+  const jinaApiKey = process.env.JINA_API_KEY;
+  const kind = (process.env.RERANKER || (jinaApiKey ? 'jina' : 'none')).toLowerCase();
+  const model = process.env.RERANKER_MODEL;
+
+  switch (kind) {
+    case 'jina':
+      if (!jinaApiKey) {
+        throw new Error('RERANKER=jina requires JINA_API_KEY');
+      }
+      return new JinaReranker(jinaApiKey, model || DEFAULT_JINA_MODEL);
+    case 'local':
+      return new CrossEncoderReranker(model || DEFAULT_CROSS_ENCODER_MODEL);
+    case 'none':
+      return undefined;
+    default:
+      throw new Error(`Unknown RERANKER "${kind}" (expected "jina", "local" or "none")`);
+  }
+}
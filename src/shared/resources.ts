@@ -0,0 +1,194 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { Corpus, getCorpora } from './corpora.js';
+import { getReadableCorpora, scopeCorpora } from './auth.js';
+import { DocumentSummary, getDocument, listDocuments } from './documents.js';
+import { createLogger } from './logger.js';
+
+// Files at the root of a corpus have no section; they are listed under this one
+const ROOT_SECTION = '_';
+
+const logger = createLogger('resources');
+
+type DocumentLocation = Pick<DocumentSummary, 'section' | 'path'> & { corpus: Pick<Corpus, 'name'> };
+
+function getSectionName(document: DocumentLocation): string {
+  return document.section || ROOT_SECTION;
+}
+
+/**
+ * Path of a document within its section, as used by `docs://{corpus}/{section}/{path}`
+ */
+function getPathInSection(document: DocumentLocation): string {
+  return document.section ? document.path.slice(document.section.length + 1) : document.path;
+}
+
+/**
+ * Returns the `docs://{corpus}/{section}/{path}` resource URI of a document
+ */
+export function getDocumentUri(document: DocumentLocation): string {
+  return `docs://${document.corpus.name}/${getSectionName(document)}/${getPathInSection(document)}`;
+}
+
+function getSectionUri(document: DocumentLocation): string {
+  return `docs://${document.corpus.name}/${getSectionName(document)}`;
+}
+
+/**
+ * The first document of each section, in corpus and section order
+ */
+function getSections(documents: DocumentSummary[]): DocumentSummary[] {
+  const sections = new Map<string, DocumentSummary>();
+  for (const document of documents) {
+    if (!sections.has(getSectionUri(document))) {
+      sections.set(getSectionUri(document), document);
+    }
+  }
+  return [...sections.values()].sort((a, b) =>
+    a.corpus.name.localeCompare(b.corpus.name) || getSectionName(a).localeCompare(getSectionName(b)));
+}
+
+/**
+ * Documents of the named corpus, optionally only one section of it
+ */
+function filterDocuments(documents: DocumentSummary[], corpus: unknown, section?: unknown): DocumentSummary[] {
+  return documents.filter((document) =>
+    (!corpus || document.corpus.name === corpus) && (!section || getSectionName(document) === section));
+}
+
+/**
+ * Registers the browsable documentation tree: `docs://{corpus}/{section}`, a
+ * Markdown index of one section of a corpus, and
+ * `docs://{corpus}/{section}/{path}`, one document rebuilt from its chunks.
+ * Both are listed and support argument completion, which offers only what the
+ * session's key (`authInfo`) may read.
+ */
+export function registerDocResources(server: McpServer, authInfo?: AuthInfo): void {
+  server.registerResource(
+    "doc-section",
+    new ResourceTemplate("docs://{corpus}/{section}", {
+      list: async (extra) => {
+        const documents = await listDocuments(scopeCorpora(getCorpora(), extra.authInfo));
+        return {
+          resources: getSections(documents).map((first) => {
+            const section = getSectionName(first);
+            const count = filterDocuments(documents, first.corpus.name, section).length;
+            return {
+              uri: getSectionUri(first),
+              name: `${first.corpus.name}/${section}`,
+              title: section === ROOT_SECTION ? `${first.corpus.title}: top-level documents` : `${first.corpus.title}: ${section}`,
+              description: `Index of the ${count} documents in ${section} of ${first.corpus.title}`,
+              mimeType: "text/markdown",
+            };
+          }),
+        };
+      },
+      complete: {
+        corpus: async (value) => getReadableCorpora(authInfo)
+          .map((corpus) => corpus.name)
+          .filter((name) => name.startsWith(value)),
+        section: async (value, context) => getSections(filterDocuments(await listDocuments(getReadableCorpora(authInfo)), context?.arguments?.corpus))
+          .map(getSectionName)
+          .filter((section) => section.startsWith(value)),
+      },
+    }),
+    {
+      title: "Jito Documentation Section",
+      description: "Index of every document in a section of one corpus, with links to each document's resource",
+      mimeType: "text/markdown",
+    },
+    async (uri, variables, extra) => {
+      const corpus = String(variables.corpus);
+      const section = String(variables.section);
+      try {
+        logger.info("Listing documentation section", { corpus, section });
+
+        const documents = filterDocuments(await listDocuments(scopeCorpora(getCorpora(), extra.authInfo)), corpus, section);
+
+        if (documents.length === 0) {
+          throw new Error(`No documents in section "${section}" of corpus "${corpus}"`);
+        }
+
+        logger.debug("Listed documentation section", { corpus, section, documents: documents.length });
+
+        const lines = documents.map((document) =>
+          `- [${document.title}](${getDocumentUri(document)}) (\`${document.path}\`)`
+        );
+        const heading = section === ROOT_SECTION ? "Top-level documents" : section;
+
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              text: `# ${documents[0].corpus.title}: ${heading}\n\n${lines.join("\n")}\n`,
+              mimeType: "text/markdown",
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error("Error fetching section", { corpus, section, error });
+        throw new Error(`Failed to fetch section ${corpus}/${section}: ${error instanceof Error ? error.message : "Unknown error"}`);
+      }
+    }
+  );
+
+  server.registerResource(
+    "doc-page",
+    new ResourceTemplate("docs://{corpus}/{section}/{+path}", {
+      list: async (extra) => ({
+        resources: (await listDocuments(scopeCorpora(getCorpora(), extra.authInfo))).map((document) => ({
+          uri: getDocumentUri(document),
+          name: `${document.corpus.name}/${document.path}`,
+          title: document.title,
+          description: `${document.corpus.title}: ${document.path}`,
+          mimeType: "text/markdown",
+        })),
+      }),
+      complete: {
+        corpus: async (value) => getReadableCorpora(authInfo)
+          .map((corpus) => corpus.name)
+          .filter((name) => name.startsWith(value)),
+        section: async (value, context) => getSections(filterDocuments(await listDocuments(getReadableCorpora(authInfo)), context?.arguments?.corpus))
+          .map(getSectionName)
+          .filter((section) => section.startsWith(value)),
+        path: async (value, context) => filterDocuments(await listDocuments(getReadableCorpora(authInfo)), context?.arguments?.corpus, context?.arguments?.section)
+          .map(getPathInSection)
+          .filter((docPath) => docPath.startsWith(value)),
+      },
+    }),
+    {
+      title: "Jito Documentation Page",
+      description: "One documentation page, reassembled in order from its indexed chunks",
+      mimeType: "text/markdown",
+    },
+    async (uri, variables, extra) => {
+      const corpus = String(variables.corpus);
+      const section = String(variables.section);
+      const pathInSection = decodeURIComponent(String(variables.path));
+      const docPath = section === ROOT_SECTION ? pathInSection : `${section}/${pathInSection}`;
+
+      try {
+        logger.info("Reading documentation page", { corpus, path: docPath });
+
+        const corpora = scopeCorpora(getCorpora(), extra.authInfo).filter((candidate) => candidate.name === corpus);
+        const document = corpora.length ? await getDocument(corpora, { path: docPath }) : undefined;
+        if (!document) {
+          throw new Error(`Document "${docPath}" not found in corpus "${corpus}"`);
+        }
+
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              text: document.text,
+              mimeType: "text/markdown",
+            },
+          ],
+        };
+      } catch (error) {
+        logger.error("Error reading page", { corpus, path: docPath, error });
+        throw new Error(`Failed to read ${corpus}/${docPath}: ${error instanceof Error ? error.message : "Unknown error"}`);
+      }
+    }
+  );
+}
@@ -0,0 +1,148 @@
+import { z } from 'zod';
+import { Corpus, getSourceUrl } from './corpora.js';
+import { StoredPoint } from './vectorStore.js';
+
+export const SNIPPET_LENGTH = 500;
+
+/**
+ * Zod shape of one document chunk as returned by the search and fetch tools
+ */
+export const DOC_RESULT_SHAPE = {
+  id: z.string().describe("Chunk ID, accepted by the fetch tool"),
+  title: z.string().describe("Document title"),
+  snippet: z.string().describe(`First ${SNIPPET_LENGTH} characters of the chunk`),
+  url: z.string().describe("Link to the source document"),
+  score: z.number().optional().describe("Retrieval score; only comparable within one search"),
+  rerankScore: z.number().optional().describe("Reranker relevance score, when a reranker is configured"),
+  section: z.string().describe("Top-level section (directory) of the document"),
+  path: z.string().describe("Document path relative to the corpus root"),
+  corpus: z.string().describe("Corpus the document belongs to"),
+  context: z.string().optional().describe("The chunk merged with its neighbouring chunks, when context was requested"),
+};
+
+const docResultSchema = z.object(DOC_RESULT_SHAPE);
+export type DocResult = z.infer<typeof docResultSchema>;
+
+/**
+ * Output schema of the search tool; structured content must be an object, so
+ * hits are wrapped in `results`
+ */
+export const SEARCH_OUTPUT_SCHEMA = {
+  results: z.array(docResultSchema),
+};
+
+/**
+ * Output schema of the fetch tool: a search result plus the full chunk text
+ */
+export const FETCH_OUTPUT_SCHEMA = {
+  ...DOC_RESULT_SHAPE,
+  text: z.string().describe("Full text of the chunk, merged with its neighbours when context was requested"),
+  lastUpdated: z.string().optional().describe("When the document last changed (ISO 8601)"),
+};
+export type FetchResult = z.infer<z.ZodObject<typeof FETCH_OUTPUT_SCHEMA>>;
+
+/**
+ * Output schema of the get_document tool
+ */
+export const DOCUMENT_OUTPUT_SCHEMA = {
+  documentId: z.string().describe("Document ID shared by all of the document's chunks"),
+  title: z.string().describe("Document title"),
+  url: z.string().describe("Link to the source document"),
+  section: z.string().describe("Top-level section (directory) of the document"),
+  path: z.string().describe("Document path relative to the corpus root"),
+  corpus: z.string().describe("Corpus the document belongs to"),
+  lastUpdated: z.string().optional().describe("When the document last changed (ISO 8601)"),
+  text: z.string().describe("The requested pages of the document, as Markdown"),
+  totalChunks: z.number().describe("Number of indexed chunks in the whole document"),
+  startPage: z.number().describe("First page returned"),
+  endPage: z.number().describe("Last page returned"),
+  totalPages: z.number().describe("Number of pages in the whole document"),
+};
+export type DocumentOutput = z.infer<z.ZodObject<typeof DOCUMENT_OUTPUT_SCHEMA>>;
+
+/**
+ * Output schema of the answer tool; `[n]` markers in the answer refer to the
+ * citation with that number
+ */
+export const ANSWER_OUTPUT_SCHEMA = {
+  answer: z.string().describe("Answer with inline numbered citations such as [1]"),
+  citations: z.array(z.object({
+    number: z.number().describe("Number used for this source in the answer"),
+    ...DOC_RESULT_SHAPE,
+  })).describe("Sources cited in the answer, by number"),
+};
+export type AnswerOutput = z.infer<z.ZodObject<typeof ANSWER_OUTPUT_SCHEMA>>;
+export type Citation = AnswerOutput['citations'][number];
+
+interface DocPayload {
+  content?: string;
+  metadata?: {
+    path?: string;
+    section?: string;
+    title?: string;
+    lastUpdated?: string;
+  };
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.substring(0, length)}...` : text;
+}
+
+/**
+ * Converts a stored chunk, optionally scored by a search, into a tool result.
+ * `context` is the chunk merged with its neighbours, see expandContext.
+ */
+export function toDocResult(corpus: Corpus, point: StoredPoint & { score?: number, rerankScore?: number }, context?: string): DocResult {
+  const { content = '', metadata = {} } = (point.payload ?? {}) as DocPayload;
+  return {
+    id: String(point.id),
+    title: metadata.title || metadata.section || 'Untitled',
+    snippet: truncate(content, SNIPPET_LENGTH),
+    url: getSourceUrl(corpus, metadata.path || ''),
+    score: point.score,
+    rerankScore: point.rerankScore,
+    section: metadata.section || '',
+    path: metadata.path || '',
+    corpus: corpus.name,
+    context,
+  };
+}
+
+export function toFetchResult(corpus: Corpus, point: StoredPoint, context?: string): FetchResult {
+  const { content = '', metadata = {} } = (point.payload ?? {}) as DocPayload;
+  return {
+    ...toDocResult(corpus, point),
+    text: context ?? content,
+    lastUpdated: metadata.lastUpdated || undefined,
+  };
+}
+
+/**
+ * Renders search results as Markdown for clients that only read text content
+ */
+export function formatSearchResults(results: DocResult[]): string {
+  if (results.length === 0) {
+    return 'No results found.';
+  }
+  return results.map((r, i) =>
+    `### ${i + 1}. ${r.title} (${r.corpus}: ${r.section})\n\n${r.context ?? r.snippet}\n\nID: \`${r.id}\` · [Source](${r.url})`
+  ).join('\n\n---\n\n');
+}
+
+export function formatFetchResult(result: FetchResult): string {
+  return `# ${result.title}\n\n${result.text}\n\n[Source](${result.url})`;
+}
+
+export function formatDocument(document: DocumentOutput): string {
+  const pages = document.totalPages > 1
+    ? `Pages ${document.startPage}-${document.endPage} of ${document.totalPages} · `
+    : '';
+  return `${document.text}\n\n---\n\n${pages}[Source](${document.url})`;
+}
+
+export function formatAnswer({ answer, citations }: AnswerOutput): string {
+  if (citations.length === 0) {
+    return answer;
+  }
+  return `${answer}\n\n**Sources**\n\n${citations.map((c) => `[${c.number}] [${c.title}](${c.url})`).join('\n')}`;
+}
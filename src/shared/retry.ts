@@ -0,0 +1,130 @@
+import { APIConnectionError } from 'openai';
+import { createLogger } from './logger.js';
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Used in log lines to identify the operation being retried */
+  label?: string;
+}
+
+/**
+ * Retries for calls made while a client waits on the response, such as
+ * embedding a search query or generating an answer: one quick retry, and never
+ * a long wait on a rate-limit reset
+ */
+export const QUERY_RETRY: RetryOptions = { retries: 1, baseDelayMs: 200, maxDelayMs: 1000 };
+
+// Error codes of network failures worth retrying, from Node's sockets and DNS and from undici (fetch)
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH',
+  'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT', 'UND_ERR_SOCKET',
+]);
+
+type HeaderBag = Headers | Record<string, string | string[] | null | undefined> | undefined;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const logger = createLogger('retry');
+
+function getHeader(headers: HeaderBag, name: string): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, string | string[] | null | undefined>)[name];
+  return Array.isArray(value) ? value[0] : value ?? undefined;
+}
+
+/**
+ * Parses a rate-limit reset such as "20ms", "1.5s" or "6m0s" into milliseconds
+ */
+function parseDuration(value: string): number | undefined {
+  let total = 0;
+  let matched = false;
+  for (const [, amount, unit] of value.matchAll(/([\d.]+)(ms|s|m|h)/g)) {
+    matched = true;
+    total += parseFloat(amount) * { ms: 1, s: 1000, m: 60_000, h: 3_600_000 }[unit as 'ms' | 's' | 'm' | 'h'];
+  }
+  return matched ? total : undefined;
+}
+
+/**
+ * Returns how long the server asked us to wait, if it said so
+ */
+function retryAfterMs(headers: HeaderBag): number | undefined {
+  const retryAfterMsHeader = getHeader(headers, 'retry-after-ms');
+  if (retryAfterMsHeader && !isNaN(Number(retryAfterMsHeader))) {
+    return Number(retryAfterMsHeader);
+  }
+
+  const retryAfter = getHeader(headers, 'retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  const reset = getHeader(headers, 'x-ratelimit-reset-requests') || getHeader(headers, 'x-ratelimit-reset-tokens');
+  return reset ? parseDuration(reset) : undefined;
+}
+
+/**
+ * Whether the error, or an error it was caused by, is a known network failure.
+ * `fetch failed` errors carry the socket error as their cause.
+ */
+function isNetworkError(error: unknown): boolean {
+  for (let current = error, depth = 0; current && depth < 5; current = (current as { cause?: unknown }).cause, depth++) {
+    const code = (current as { code?: unknown }).code;
+    if (current instanceof APIConnectionError || (typeof code === 'string' && NETWORK_ERROR_CODES.has(code))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Timeouts, conflicts, rate limits, server errors and known network failures
+ * are worth retrying. Anything else, including a bug in our own code, is not.
+ */
+export function isRetryableError(error: unknown): boolean {
+  const status = (error as { status?: number } | undefined)?.status;
+  if (typeof status !== 'number') {
+    return isNetworkError(error);
+  }
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * Runs `fn`, retrying transient failures with exponential backoff and full
+ * jitter. A Retry-After or rate-limit reset header on the error takes precedence
+ * over the computed delay.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { retries = 5, baseDelayMs = 500, maxDelayMs = 30_000, label = 'request' } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const headers = (error as { headers?: HeaderBag }).headers;
+      const backoff = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const delay = Math.min(maxDelayMs, retryAfterMs(headers) ?? backoff);
+
+      logger.warning(`${label} failed, retrying`, { error, delayMs: Math.round(delay), attempt: attempt + 1, retries });
+      await sleep(delay);
+    }
+  }
+}
@@ -0,0 +1,372 @@
+import { z } from 'zod';
+import { Embedder } from './embedder.js';
+import { Reranker } from './reranker.js';
+import { querySparseVector } from './sparse.js';
+import { Condition, Filter, ScoredPoint, VectorStore } from './vectorStore.js';
+import { CacheStats, LruCache, normalizeQuery } from './cache.js';
+import { rerankDuration, rerankScores, reranks, resultScores, vectorSearchDuration } from './metrics.js';
+import { createLogger } from './logger.js';
+
+export const SEARCH_MODES = ['semantic', 'keyword', 'hybrid'] as const;
+export type SearchMode = typeof SEARCH_MODES[number];
+
+export interface SearchFilters {
+  /** Top-level sections (directories) to search in; any of them matches */
+  sections?: string[];
+  /** Directory or file path, relative to the corpus root */
+  pathPrefix?: string;
+  /** Frontmatter tags; any of them matches */
+  tags?: string[];
+  /** ISO 8601 date; only documents changed since then match */
+  updatedSince?: string;
+}
+
+export const MAX_SEARCH_LIMIT = 50;
+
+/**
+ * Zod input for the number of results a search returns. Capped because each
+ * result costs retrieval (twice over in hybrid mode) and reranking.
+ */
+export const SEARCH_LIMIT_INPUT = z.number().int().min(1).max(MAX_SEARCH_LIMIT).optional().default(10)
+  .describe(`Maximum number of results to return (1-${MAX_SEARCH_LIMIT})`);
+
+/**
+ * Zod input shape for the filter arguments of tools that search
+ */
+export const SEARCH_FILTER_INPUTS = {
+  sections: z.array(z.string()).optional().describe("Only return results from these sections (top-level directories such as restaking or mev)"),
+  pathPrefix: z.string().optional().describe("Only return results from documents under this directory or at this path, e.g. restaking/vaults"),
+  tags: z.array(z.string()).optional().describe("Only return results from documents with any of these frontmatter tags"),
+  updatedSince: z.string()
+    .refine((value) => !isNaN(Date.parse(value)), "Must be an ISO 8601 date, e.g. 2025-01-31")
+    .optional()
+    .describe("Only return results from documents updated on or after this ISO 8601 date"),
+};
+
+export interface RetrieveOptions {
+  query: string;
+  limit: number;
+  mode?: SearchMode;
+  filters?: SearchFilters;
+}
+
+/**
+ * Returns the directory prefixes of a document path ("a/b/c.md" gives "a" and
+ * "a/b"), stored in the payload so path-prefix filters are exact keyword matches
+ */
+export function getPathPrefixes(docPath: string): string[] {
+  const parts = docPath.split('/').slice(0, -1);
+  return parts.map((_, i) => parts.slice(0, i + 1).join('/'));
+}
+
+/**
+ * Translates search filter arguments into a payload filter
+ */
+export function buildFilter({ sections, pathPrefix, tags, updatedSince }: SearchFilters = {}): Filter | undefined {
+  const must: Condition[] = [];
+
+  if (sections?.length) {
+    must.push({ key: 'metadata.section', match: { any: sections } });
+  }
+  if (pathPrefix) {
+    const prefix = pathPrefix.replace(/^\/+|\/+$/g, '');
+    must.push({
+      should: [
+        { key: 'metadata.path', match: { value: prefix } },
+        { key: 'metadata.pathPrefixes', match: { value: prefix } },
+      ],
+    });
+  }
+  if (tags?.length) {
+    must.push({ key: 'metadata.tags', match: { any: tags.map((tag) => tag.toLowerCase()) } });
+  }
+  if (updatedSince) {
+    must.push({ key: 'metadata.lastUpdated', range: { gte: new Date(updatedSince).toISOString() } });
+  }
+
+  return must.length ? { must } : undefined;
+}
+
+// Standard RRF damping constant; higher values flatten the contribution of top ranks
+const RRF_K = 60;
+
+/**
+ * Merges several ranked lists with reciprocal rank fusion. Each point scores
+ * sum(1 / (k + rank)) over the lists it appears in; the payload of its first
+ * occurrence is kept.
+ */
+export function reciprocalRankFusion(lists: ScoredPoint[][], limit: number, k: number = RRF_K): ScoredPoint[] {
+  const fused = new Map<string, ScoredPoint>();
+
+  for (const list of lists) {
+    list.forEach((point, rank) => {
+      const key = String(point.id);
+      const contribution = 1 / (k + rank + 1);
+      const existing = fused.get(key);
+      if (existing) {
+        existing.score += contribution;
+      } else {
+        fused.set(key, { ...point, score: contribution });
+      }
+    });
+  }
+
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+export interface CollectionPoint extends ScoredPoint {
+  /** Collection the point was found in */
+  collection: string;
+}
+
+async function searchStore(store: VectorStore, embedding: number[] | undefined, query: string, mode: SearchMode, limit: number, filter?: Filter): Promise<ScoredPoint[]> {
+  const denseSearch = (k: number) => vectorSearchDuration.time({ collection: store.collection, kind: 'dense' },
+    () => store.searchDense(embedding!, { limit: k, filter }));
+  const keywordSearch = async (k: number) => {
+    const sparse = querySparseVector(query);
+    return sparse.indices.length === 0 ? [] : await vectorSearchDuration.time({ collection: store.collection, kind: 'sparse' },
+      () => store.searchSparse(sparse, { limit: k, filter }));
+  };
+
+  switch (mode) {
+    case 'semantic':
+      return denseSearch(limit);
+    case 'keyword':
+      return keywordSearch(limit);
+    case 'hybrid': {
+      // Over-fetch each list so fusion can surface points ranked lower in one of them
+      const candidates = limit * 2;
+      const [dense, keyword] = await Promise.all([
+        denseSearch(candidates),
+        keywordSearch(candidates),
+      ]);
+      return reciprocalRankFusion([dense, keyword], limit);
+    }
+  }
+}
+
+/**
+ * Retrieves the top `limit` chunks for a query across one or more stores.
+ * `semantic` uses the dense embedding, `keyword` the BM25 sparse vector, and
+ * `hybrid` (the default) runs both and fuses the rankings with RRF. Results
+ * from several stores are fused with RRF as well, since their raw scores are
+ * not comparable.
+ */
+export async function retrieve(
+  stores: VectorStore[],
+  embedder: Embedder,
+  { query, limit, mode = 'hybrid', filters }: RetrieveOptions
+): Promise<CollectionPoint[]> {
+  const filter = buildFilter(filters);
+
+  // The query is embedded once and reused for every store
+  const embedding = mode === 'keyword' ? undefined : (await embedder.embed([query]))[0];
+
+  const lists = await Promise.all(stores.map(async (store) =>
+    (await searchStore(store, embedding, query, mode, limit, filter)).map((point) => ({
+      ...point,
+      collection: store.collection,
+    }))
+  ));
+
+  if (lists.length === 1) {
+    return lists[0];
+  }
+
+  // Point IDs are only unique within a collection, so key the fusion on both
+  const fused = reciprocalRankFusion(
+    lists.map((list) => list.map((point) => ({ ...point, id: `${point.collection}:${point.id}` }))),
+    limit
+  ) as CollectionPoint[];
+  return fused.map((point) => ({ ...point, id: String(point.id).slice(point.collection.length + 1) }));
+}
+
+export interface SearchHit extends CollectionPoint {
+  /** Set when a reranker scored the hit */
+  rerankScore?: number;
+}
+
+/**
+ * How many candidates to retrieve for the reranker to choose `limit` from:
+ * RERANK_CANDIDATES (default 50)
+ */
+function getRerankCandidates(): number {
+  return Number(process.env.RERANK_CANDIDATES) || 50;
+}
+
+const logger = createLogger('search');
+
+/**
+ * Retrieves and reranks. `degraded` is set when reranking failed and the
+ * retrieval order was kept, so the results are not worth caching.
+ */
+async function searchUncached(
+  stores: VectorStore[],
+  embedder: Embedder,
+  reranker: Reranker | undefined,
+  options: RetrieveOptions
+): Promise<{ hits: SearchHit[], degraded: boolean }> {
+  const { query, limit } = options;
+  const candidates = reranker ? Math.max(limit, getRerankCandidates()) : limit;
+  const hits: SearchHit[] = await retrieve(stores, embedder, { ...options, limit: candidates });
+
+  if (!reranker || hits.length < 2) {
+    return { hits: hits.slice(0, limit), degraded: false };
+  }
+
+  try {
+    const scores = await rerankDuration.time({ reranker: reranker.name },
+      () => reranker.rerank(query, hits.map((hit) => String(hit.payload?.content ?? ''))));
+    reranks.inc({ reranker: reranker.name, outcome: 'success' });
+    logger.debug('Reranked results', { reranker: reranker.name, candidates: hits.length });
+    return {
+      hits: hits
+        .map((hit, i) => ({ ...hit, rerankScore: scores[i] }))
+        .sort((a, b) => b.rerankScore - a.rerankScore)
+        .slice(0, limit),
+      degraded: false,
+    };
+  } catch (rerankError) {
+    reranks.inc({ reranker: reranker.name, outcome: 'failure' });
+    logger.warning('Reranking failed, using retrieval order', { reranker: reranker.name, error: rerankError });
+    return { hits: hits.slice(0, limit), degraded: true };
+  }
+}
+
+/**
+ * Results are cached for SEARCH_CACHE_TTL_MS (default 5 minutes, 0 to disable)
+ */
+function getResultCacheTtlMs(): number {
+  return Number(process.env.SEARCH_CACHE_TTL_MS ?? 300_000);
+}
+
+// At most SEARCH_CACHE_SIZE (default 500) results are cached, and dropped as
+// soon as the indexer records a new index version. Created on first use, once
+// the environment is loaded.
+let resultCache: LruCache<SearchHit[]> | undefined;
+
+function getResultCache(): LruCache<SearchHit[]> {
+  resultCache ??= new LruCache<SearchHit[]>(Number(process.env.SEARCH_CACHE_SIZE) || 500, getResultCacheTtlMs());
+  return resultCache;
+}
+
+/**
+ * How long a collection's index version is trusted before it is read again:
+ * INDEX_VERSION_CHECK_MS (default 10 seconds)
+ */
+function getIndexVersionCheckMs(): number {
+  return Number(process.env.INDEX_VERSION_CHECK_MS ?? 10_000);
+}
+
+const indexVersions = new Map<string, { version: string, checkedAt: number }>();
+
+/**
+ * The index version the indexer last recorded for a store, or '' if none;
+ * re-read at most every INDEX_VERSION_CHECK_MS
+ */
+export async function getIndexVersion(store: VectorStore): Promise<string> {
+  const known = indexVersions.get(store.collection);
+  if (known && Date.now() - known.checkedAt < getIndexVersionCheckMs()) {
+    return known.version;
+  }
+  const version = (await store.getIndexState())?.version ?? '';
+  indexVersions.set(store.collection, { version, checkedAt: Date.now() });
+  return version;
+}
+
+const collectionChecks = new Map<string, { exists: boolean, checkedAt: number }>();
+
+/**
+ * Whether a store's collection exists, re-checked at most every
+ * INDEX_VERSION_CHECK_MS. A corpus added to the registry but not indexed yet
+ * has none.
+ */
+async function hasCollection(store: VectorStore): Promise<boolean> {
+  const known = collectionChecks.get(store.collection);
+  if (known && Date.now() - known.checkedAt < getIndexVersionCheckMs()) {
+    return known.exists;
+  }
+  const exists = (await store.getCollection()) !== undefined;
+  if (!exists && known?.exists !== false) {
+    logger.warning('Skipping a collection that does not exist; index its corpus to search it', { collection: store.collection });
+  }
+  collectionChecks.set(store.collection, { exists, checkedAt: Date.now() });
+  return exists;
+}
+
+/**
+ * The stores whose collection exists, so that a corpus not indexed yet does
+ * not fail every search and listing that includes it
+ */
+export async function getIndexedStores(stores: VectorStore[]): Promise<VectorStore[]> {
+  const exists = await Promise.all(stores.map(hasCollection));
+  return stores.filter((_, i) => exists[i]);
+}
+
+export function getSearchCacheStats(): CacheStats {
+  return getResultCache().stats();
+}
+
+/**
+ * The full search flow: retrieves a candidate pool larger than `limit` (at
+ * least RERANK_CANDIDATES) when a reranker is configured, reranks it and keeps
+ * the best `limit`. If reranking fails, the retrieval order is kept.
+ *
+ * Results are cached by query, options and the index version of every store
+ * searched, so a reindex invalidates them. Stores without a collection are
+ * skipped; if none has one, there are no results.
+ */
+export async function searchDocs(
+  stores: VectorStore[],
+  embedder: Embedder,
+  reranker: Reranker | undefined,
+  options: RetrieveOptions
+): Promise<SearchHit[]> {
+  const indexed = await getIndexedStores(stores);
+  if (indexed.length === 0) {
+    return [];
+  }
+  const hits = await searchCached(indexed, embedder, reranker, options);
+  for (const hit of hits) {
+    resultScores.observe({ mode: options.mode ?? 'hybrid' }, hit.score);
+    if (hit.rerankScore !== undefined && reranker) {
+      rerankScores.observe({ reranker: reranker.name }, hit.rerankScore);
+    }
+  }
+  return hits;
+}
+
+async function searchCached(
+  stores: VectorStore[],
+  embedder: Embedder,
+  reranker: Reranker | undefined,
+  options: RetrieveOptions
+): Promise<SearchHit[]> {
+  if (getResultCacheTtlMs() <= 0) {
+    return (await searchUncached(stores, embedder, reranker, options)).hits;
+  }
+
+  const versions = await Promise.all(stores.map(async (store) => `${store.collection}@${await getIndexVersion(store)}`));
+  const key = JSON.stringify({
+    stores: versions,
+    query: normalizeQuery(options.query),
+    limit: options.limit,
+    mode: options.mode ?? 'hybrid',
+    filters: options.filters ?? {},
+    embedder: `${embedder.provider}:${embedder.model}`,
+    reranker: reranker?.name,
+  });
+
+  const cached = getResultCache().get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const { hits, degraded } = await searchUncached(stores, embedder, reranker, options);
+  if (!degraded) {
+    getResultCache().set(key, hits);
+  }
+  return hits;
+}
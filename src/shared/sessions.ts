@@ -0,0 +1,202 @@
+import express, { NextFunction, Request, Response, Router } from 'express';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { bindSession, getSessionId, getToolCalls, requireAdmin, requireApiKey, sendJsonRpcError, unbindSession } from './auth.js';
+import { getClientId } from './rateLimit.js';
+import { CollectedMetric } from './metrics.js';
+import { createLogger, setLogContext } from './logger.js';
+
+export type SessionTransportType = 'streamable-http' | 'sse';
+
+/**
+ * An open session as reported by the admin endpoint
+ */
+export interface SessionInfo {
+  id: string;
+  transport: SessionTransportType;
+  client: string;
+  createdAt: string;
+  lastActivityAt: string;
+  idleMs: number;
+  requests: number;
+  toolCalls: Record<string, number>;
+}
+
+interface Session {
+  id: string;
+  type: SessionTransportType;
+  client: string;
+  transport: Transport;
+  createdAt: number;
+  lastActivityAt: number;
+  requests: number;
+  toolCalls: Record<string, number>;
+}
+
+// JSON-RPC error code for a new session refused at the session cap, sent with HTTP 503
+export const SESSION_LIMIT_ERROR_CODE = -32031;
+
+const SWEEP_INTERVAL_MS = 60_000;
+
+const logger = createLogger('sessions');
+
+const sessions = new Map<string, Session>();
+
+new CollectedMetric('mcp_sessions', 'Open sessions by transport', 'gauge', () => {
+  const counts: Record<SessionTransportType, number> = { 'streamable-http': 0, sse: 0 };
+  for (const session of sessions.values()) {
+    counts[session.type]++;
+  }
+  return Object.entries(counts).map(([transport, value]) => ({ labels: { transport }, value }));
+});
+
+/**
+ * Sessions idle for SESSION_IDLE_TIMEOUT_MS (default 30 minutes; 0 never) are closed
+ */
+function getIdleTimeoutMs(): number {
+  return Number(process.env.SESSION_IDLE_TIMEOUT_MS ?? 30 * 60 * 1000);
+}
+
+/**
+ * At most MAX_SESSIONS (default 1000; 0 for no limit) sessions are open at once
+ */
+function getMaxSessions(): number {
+  return Number(process.env.MAX_SESSIONS ?? 1000);
+}
+
+/**
+ * Tracks a new session, binding it to the caller's API key. The servers call
+ * `unregisterSession` from the transport's close handler.
+ */
+export function registerSession(id: string, type: SessionTransportType, transport: Transport, req: Request): void {
+  const now = Date.now();
+  sessions.set(id, {
+    id,
+    type,
+    client: getClientId(req),
+    transport,
+    createdAt: now,
+    lastActivityAt: now,
+    requests: 0,
+    toolCalls: {},
+  });
+  bindSession(id, req);
+  setLogContext({ sessionId: id });
+  logger.info('Session opened', { transport: type });
+}
+
+export function unregisterSession(id: string): void {
+  sessions.delete(id);
+  unbindSession(id);
+}
+
+/**
+ * Refuses a new session with HTTP 503 when the session cap is reached;
+ * returns whether the request may go on
+ */
+export function checkSessionCapacity(res: Response): boolean {
+  const maxSessions = getMaxSessions();
+  if (maxSessions > 0 && sessions.size >= maxSessions) {
+    logger.warning('Refused new session: session limit reached', { open: sessions.size, maxSessions });
+    sendJsonRpcError(res, 503, SESSION_LIMIT_ERROR_CODE, `Server busy: the limit of ${maxSessions} open sessions is reached; retry later`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Express middleware for the MCP endpoints, after rateLimitToolCalls: records
+ * each request to an open session and the tools it calls
+ */
+export function trackSessionActivity(req: Request, _res: Response, next: NextFunction): void {
+  const session = sessions.get(getSessionId(req) ?? '');
+  if (session) {
+    session.lastActivityAt = Date.now();
+    session.requests++;
+    for (const { tool } of getToolCalls(req)) {
+      session.toolCalls[tool] = (session.toolCalls[tool] ?? 0) + 1;
+    }
+  }
+  next();
+}
+
+export function listSessions(): SessionInfo[] {
+  const now = Date.now();
+  return [...sessions.values()]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map((session) => ({
+      id: session.id,
+      transport: session.type,
+      client: session.client,
+      createdAt: new Date(session.createdAt).toISOString(),
+      lastActivityAt: new Date(session.lastActivityAt).toISOString(),
+      idleMs: now - session.lastActivityAt,
+      requests: session.requests,
+      toolCalls: session.toolCalls,
+    }));
+}
+
+/**
+ * Closes a session's transport, which ends its streams and lets the server
+ * drop it. A Streamable HTTP session is also ended in the event store, so it
+ * cannot be restored and later requests for it get 404. Returns false for an
+ * unknown session.
+ */
+export async function terminateSession(id: string): Promise<boolean> {
+  const session = sessions.get(id);
+  if (!session) {
+    return false;
+  }
+  unregisterSession(id);
+  await session.transport.close();
+  return true;
+}
+
+/**
+ * Terminates the sessions idle for longer than SESSION_IDLE_TIMEOUT_MS; run
+ * every minute
+ */
+export function closeIdleSessions(): void {
+  const idleTimeoutMs = getIdleTimeoutMs();
+  if (idleTimeoutMs <= 0) {
+    return;
+  }
+
+  const idleSince = Date.now() - idleTimeoutMs;
+  for (const session of [...sessions.values()]) {
+    if (session.lastActivityAt < idleSince) {
+      const fields = { sessionId: session.id, transport: session.type, client: session.client };
+      logger.info('Closing idle session', { ...fields, idleMs: Date.now() - session.lastActivityAt });
+      terminateSession(session.id).catch((error) => {
+        logger.error('Error closing idle session', { ...fields, error });
+      });
+    }
+  }
+}
+
+setInterval(closeIdleSessions, SWEEP_INTERVAL_MS).unref();
+
+/**
+ * Routes under /admin for keys with admin access: `GET /admin/sessions` lists
+ * open sessions, `DELETE /admin/sessions/:id` terminates one
+ */
+export function createAdminRouter(): Router {
+  const router = express.Router();
+  router.use(requireApiKey, requireAdmin);
+
+  router.get('/sessions', (_req: Request, res: Response) => {
+    const list = listSessions();
+    res.json({ count: list.length, maxSessions: getMaxSessions(), idleTimeoutMs: getIdleTimeoutMs(), sessions: list });
+  });
+
+  router.delete('/sessions/:id', async (req: Request, res: Response) => {
+    const { id } = req.params;
+    if (!await terminateSession(id)) {
+      res.status(404).json({ error: 'Not found', message: `No open session ${id}` });
+      return;
+    }
+    logger.notice('Session terminated by admin', { terminatedSessionId: id });
+    res.json({ terminated: id });
+  });
+
+  return router;
+}
@@ -0,0 +1,99 @@
+/**
+ * Lexical (keyword) vectors for hybrid search.
+ *
+ * Documents are turned into sparse vectors of BM25 term-frequency weights over
+ * hashed tokens. The collection's sparse vector uses Qdrant's `idf` modifier,
+ * so the inverse document frequency half of BM25 is applied server-side.
+ */
+
+export const SPARSE_VECTOR_NAME = 'bm25';
+
+// BM25 parameters; AVG_DOC_LENGTH approximates the token count of one chunk
+const K1 = 1.2;
+const B = 0.75;
+const AVG_DOC_LENGTH = 150;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from',
+  'how', 'i', 'if', 'in', 'is', 'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to',
+  'was', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you',
+]);
+
+export interface SparseVector {
+  indices: number[];
+  values: number[];
+}
+
+/**
+ * Splits text into lowercase terms. Identifiers such as `tip_distribution_account`
+ * or `--rpc-url` are kept whole and also split into their parts, so both exact and
+ * partial matches score.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  const words = text.toLowerCase().match(/[a-z0-9][a-z0-9_\-]*/g) || [];
+
+  for (const raw of words) {
+    const word = raw.replace(/[_\-]+$/, '');
+    if (!word || STOP_WORDS.has(word)) {
+      continue;
+    }
+    terms.push(word);
+
+    if (/[_\-]/.test(word)) {
+      for (const part of word.split(/[_\-]+/)) {
+        if (part && !STOP_WORDS.has(part)) {
+          terms.push(part);
+        }
+      }
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Maps a term to a sparse vector index (32-bit FNV-1a)
+ */
+function termIndex(term: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < term.length; i++) {
+    hash ^= term.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function countTerms(terms: string[]): Map<number, number> {
+  const counts = new Map<number, number>();
+  for (const term of terms) {
+    const index = termIndex(term);
+    counts.set(index, (counts.get(index) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Builds the sparse vector stored alongside a chunk's dense embedding
+ */
+export function documentSparseVector(text: string): SparseVector {
+  const terms = tokenize(text);
+  const counts = countTerms(terms);
+  const lengthNorm = 1 - B + B * (terms.length / AVG_DOC_LENGTH);
+
+  const indices: number[] = [];
+  const values: number[] = [];
+  for (const [index, tf] of counts) {
+    indices.push(index);
+    values.push((tf * (K1 + 1)) / (tf + K1 * lengthNorm));
+  }
+  return { indices, values };
+}
+
+/**
+ * Builds the sparse vector for a search query; every distinct term weighs 1
+ */
+export function querySparseVector(text: string): SparseVector {
+  const indices = [...countTerms(tokenize(text)).keys()];
+  return { indices, values: indices.map(() => 1) };
+}
@@ -0,0 +1,164 @@
+import express, { Request, Response, Router } from 'express';
+import { randomUUID } from 'crypto';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { FileEventStore, createEventStore, restoreTransport } from './eventStore.js';
+import { getAuthInfo, getKeyName, requireApiKey, sendJsonRpcError } from './auth.js';
+import { rateLimitToolCalls } from './rateLimit.js';
+import { checkSessionCapacity, registerSession, trackSessionActivity, unregisterSession } from './sessions.js';
+import { connectWithLogging, createLogger } from './logger.js';
+
+// JSON-RPC error code for a request the transport cannot take, such as one naming an unknown session
+export const BAD_REQUEST_ERROR_CODE = -32000;
+
+const logger = createLogger('streamable-http');
+
+/**
+ * The Streamable HTTP sessions of a server (protocol version 2025-03-26), each
+ * with its own transport and a server from `createServer`, limited to the key
+ * that opened it. Every stream's events are kept in the event store, opened
+ * on first use, so clients can resume after a disconnect or restart.
+ *
+ * A session closed by its client (DELETE), by an admin or for being idle is
+ * ended in the event store and answered 404 from then on. Sessions closed by
+ * `closeAll()` on shutdown stay in the store, and a session unknown to this
+ * process but found there is restored for the key that opened it.
+ */
+export class StreamableHttpSessions {
+  private transports = new Map<string, StreamableHTTPServerTransport>();
+  private eventStore?: FileEventStore;
+  private shuttingDown = false;
+
+  constructor(
+    private createServer: (authInfo?: AuthInfo) => McpServer,
+    private openEventStore: () => FileEventStore = createEventStore
+  ) {}
+
+  private getEventStore(): FileEventStore {
+    this.eventStore ??= this.openEventStore();
+    return this.eventStore;
+  }
+
+  /**
+   * Creates a transport and server for a new session, or for `sessionId`
+   * when restoring a session from the event store
+   */
+  async open(req: Request, sessionId?: string): Promise<StreamableHTTPServerTransport> {
+    const id = sessionId ?? randomUUID();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => id,
+      eventStore: this.getEventStore().forSession(id, getKeyName(req)),
+      onsessioninitialized: (newSessionId) => {
+        this.transports.set(newSessionId, transport);
+        registerSession(newSessionId, 'streamable-http', transport, req);
+      },
+    });
+
+    transport.onclose = () => {
+      const closedId = transport.sessionId;
+      if (closedId && this.transports.get(closedId) === transport) {
+        logger.info('Session closed', { sessionId: closedId });
+        this.transports.delete(closedId);
+        unregisterSession(closedId);
+        if (!this.shuttingDown) {
+          this.getEventStore().endSession(closedId);
+        }
+      }
+    };
+
+    await connectWithLogging(this.createServer(getAuthInfo(req)), transport);
+    if (sessionId) {
+      restoreTransport(transport, sessionId);
+      this.transports.set(sessionId, transport);
+      registerSession(sessionId, 'streamable-http', transport, req);
+    }
+    return transport;
+  }
+
+  /**
+   * The transport of a request's session, restoring it from the event store
+   * if this process does not know it. Undefined when there is none, or when
+   * restoring it was refused at the session cap (and answered).
+   */
+  async get(req: Request, res: Response): Promise<StreamableHTTPServerTransport | undefined> {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    if (!sessionId) {
+      return undefined;
+    }
+    const transport = this.transports.get(sessionId);
+    if (transport) {
+      return transport;
+    }
+    const stored = this.getEventStore().findSession(sessionId);
+    if (!stored || stored.owner !== getKeyName(req) || !checkSessionCapacity(res)) {
+      return undefined;
+    }
+    logger.info('Restoring session from the event store', { sessionId });
+    return this.open(req, sessionId);
+  }
+
+  /**
+   * Closes every session for a shutdown, leaving them restorable
+   */
+  async closeAll(): Promise<void> {
+    this.shuttingDown = true;
+    for (const [sessionId, transport] of [...this.transports]) {
+      try {
+        logger.info('Closing transport', { sessionId });
+        await transport.close();
+      } catch (error) {
+        logger.error('Error closing transport', { sessionId, error });
+      }
+    }
+  }
+}
+
+/**
+ * Routes for the Streamable HTTP endpoint, mounted at /mcp: POST initializes
+ * a session and sends requests, GET opens (or resumes) the session's SSE
+ * stream and DELETE ends the session
+ */
+export function createStreamableHttpRouter(sessions: StreamableHttpSessions): Router {
+  const router = express.Router();
+
+  const handle = async (req: Request, res: Response) => {
+    try {
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+      let transport = await sessions.get(req, res);
+      if (res.headersSent) {
+        // Refused at the session cap
+        return;
+      }
+
+      if (!transport && !sessionId && req.method === 'POST' && isInitializeRequest(req.body)) {
+        if (!checkSessionCapacity(res)) {
+          return;
+        }
+        transport = await sessions.open(req);
+      } else if (!transport && sessionId) {
+        logger.warning('Request for an unknown or closed session', { sessionId });
+        sendJsonRpcError(res, 404, BAD_REQUEST_ERROR_CODE, 'Session not found');
+        return;
+      } else if (!transport) {
+        logger.warning('Invalid request - no session ID or not an initialize request');
+        sendJsonRpcError(res, 400, BAD_REQUEST_ERROR_CODE, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      logger.error('Error handling MCP request', { method: req.method, error });
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  };
+
+  router.post('/', requireApiKey, rateLimitToolCalls, trackSessionActivity, handle);
+  router.get('/', requireApiKey, trackSessionActivity, handle);
+  router.delete('/', requireApiKey, handle);
+
+  return router;
+}
@@ -0,0 +1,29 @@
+type Transformers = typeof import('@xenova/transformers');
+
+// @xenova/transformers is ESM-only; a plain import() would be compiled to require()
+const importEsm = new Function('specifier', 'return import(specifier)') as
+  <T>(specifier: string) => Promise<T>;
+
+let transformers: Promise<Transformers> | undefined;
+
+/**
+ * Loads @xenova/transformers once, configured from the environment. Set
+ * LOCAL_MODEL_PATH to load models from disk only (for air-gapped hosts);
+ * otherwise models are downloaded once into TRANSFORMERS_CACHE.
+ */
+export function loadTransformers(): Promise<Transformers> {
+  if (!transformers) {
+    transformers = importEsm<Transformers>('@xenova/transformers').then((module) => {
+      const localModelPath = process.env.LOCAL_MODEL_PATH;
+      if (localModelPath) {
+        module.env.localModelPath = localModelPath;
+        module.env.allowRemoteModels = false;
+      }
+      if (process.env.TRANSFORMERS_CACHE) {
+        module.env.cacheDir = process.env.TRANSFORMERS_CACHE;
+      }
+      return module;
+    });
+  }
+  return transformers;
+}
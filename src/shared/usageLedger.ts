@@ -0,0 +1,125 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import path from 'path';
+
+/**
+ * One client's tool calls on one day: calls served per tool, and calls
+ * rejected by the rate limiter or quota
+ */
+export interface ClientUsage {
+  calls: Record<string, number>;
+  rejected: number;
+}
+
+/** Usage keyed by UTC day (YYYY-MM-DD), then by client */
+export type UsageLedgerData = Record<string, Record<string, ClientUsage>>;
+
+export interface UsageRow {
+  day: string;
+  client: string;
+  tool: string;
+  calls: number;
+}
+
+// Writes are batched so a burst of calls costs one write
+const SAVE_DELAY_MS = 5000;
+
+export function getLedgerPath(): string {
+  return path.resolve(process.cwd(), process.env.USAGE_LEDGER_FILE || '.usage-ledger.json');
+}
+
+export function getDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function getTotalCalls(usage: ClientUsage | undefined): number {
+  return Object.values(usage?.calls ?? {}).reduce((sum, n) => sum + n, 0);
+}
+
+/**
+ * Per-client, per-day tool call counts, kept in a JSON file so daily quotas
+ * survive restarts and usage can be queried with `pnpm run usage`. Days older
+ * than USAGE_LEDGER_DAYS (default 90) are dropped.
+ */
+export class UsageLedger {
+  private data: UsageLedgerData;
+  private saveTimer?: NodeJS.Timeout;
+
+  constructor(private file: string = getLedgerPath(), private retainDays: number = Number(process.env.USAGE_LEDGER_DAYS) || 90) {
+    this.data = existsSync(file) ? JSON.parse(readFileSync(file, 'utf-8')) as UsageLedgerData : {};
+  }
+
+  private getUsage(client: string, day: string): ClientUsage {
+    const clients = this.data[day] ??= {};
+    return clients[client] ??= { calls: {}, rejected: 0 };
+  }
+
+  record(client: string, tool: string): void {
+    const usage = this.getUsage(client, getDay());
+    usage.calls[tool] = (usage.calls[tool] ?? 0) + 1;
+    this.scheduleSave();
+  }
+
+  recordRejected(client: string): void {
+    this.getUsage(client, getDay()).rejected++;
+    this.scheduleSave();
+  }
+
+  /**
+   * Tool calls a client has made today
+   */
+  callsToday(client: string): number {
+    return getTotalCalls(this.data[getDay()]?.[client]);
+  }
+
+  /**
+   * Usage rows, newest day first, optionally limited to a day or client
+   */
+  query(filter: { day?: string, client?: string } = {}): UsageRow[] {
+    const rows: UsageRow[] = [];
+    for (const day of Object.keys(this.data).sort().reverse()) {
+      if (filter.day && day !== filter.day) {
+        continue;
+      }
+      for (const [client, usage] of Object.entries(this.data[day])) {
+        if (filter.client && client !== filter.client) {
+          continue;
+        }
+        for (const [tool, calls] of Object.entries(usage.calls)) {
+          rows.push({ day, client, tool, calls });
+        }
+        if (usage.rejected > 0) {
+          rows.push({ day, client, tool: '(rejected)', calls: usage.rejected });
+        }
+      }
+    }
+    return rows;
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => this.save(), SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  /**
+   * Writes pending usage now; also called on exit
+   */
+  save(): void {
+    clearTimeout(this.saveTimer);
+    this.saveTimer = undefined;
+
+    const cutoff = getDay(new Date(Date.now() - this.retainDays * 24 * 60 * 60 * 1000));
+    for (const day of Object.keys(this.data)) {
+      if (day < cutoff) {
+        delete this.data[day];
+      }
+    }
+
+    mkdirSync(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.tmp`;
+    writeFileSync(tmp, JSON.stringify(this.data, null, 2));
+    renameSync(tmp, this.file);
+  }
+}
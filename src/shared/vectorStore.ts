@@ -0,0 +1,140 @@
+import path from 'path';
+import { SparseVector } from './sparse.js';
+import { QdrantVectorStore } from './qdrantVectorStore.js';
+import { LocalVectorStore } from './localVectorStore.js';
+
+/**
+ * Payload filter, a subset of Qdrant's filter syntax that every backend understands.
+ * `range` bounds may be numbers or RFC 3339 date strings.
+ */
+export interface Filter {
+  must?: Condition[];
+  should?: Condition[];
+  must_not?: Condition[];
+}
+
+export type MatchValue = string | number | boolean;
+
+export type Condition =
+  | { key: string; match: { value: MatchValue } | { any: MatchValue[] } | { text: string } }
+  | { key: string; range: { gt?: number | string; gte?: number | string; lt?: number | string; lte?: number | string } }
+  | { has_id: (string | number)[] }
+  | Filter;
+
+export interface StoredPoint {
+  id: string | number;
+  payload?: Record<string, unknown> | null;
+}
+
+export interface ScoredPoint extends StoredPoint {
+  score: number;
+}
+
+export interface PointInput {
+  id: string;
+  dense: number[];
+  sparse?: SparseVector;
+  payload: Record<string, unknown>;
+}
+
+export interface CollectionInfo {
+  /** Size of the dense vectors, undefined if the collection predates named vectors */
+  denseSize?: number;
+  hasSparse: boolean;
+  /** Document chunks stored; however a backend keeps the index state, it is not counted */
+  pointsCount: number;
+}
+
+/**
+ * Written by the indexer whenever a run changes the collection, so servers can
+ * tell when cached results are stale
+ */
+export interface IndexState {
+  /** Changes on every indexing run that modified the collection */
+  version: string;
+  updatedAt: string;
+  /** When the last run over the whole corpus finished without failures, whether or not it changed anything */
+  succeededAt?: string;
+}
+
+export interface SearchOptions {
+  limit: number;
+  filter?: Filter;
+}
+
+export interface ScrollOptions {
+  filter?: Filter;
+  limit: number;
+  /** `nextOffset` returned by the previous page */
+  offset?: string | number;
+}
+
+export interface ScrollPage {
+  points: StoredPoint[];
+  nextOffset?: string | number;
+}
+
+/**
+ * Storage for one collection of document chunks, each holding a dense embedding,
+ * an optional BM25 sparse vector and a JSON payload
+ */
+export interface VectorStore {
+  readonly collection: string;
+
+  /**
+   * Returns the collection's configuration, or undefined if it does not exist
+   */
+  getCollection(): Promise<CollectionInfo | undefined>;
+  createCollection(denseSize: number): Promise<void>;
+  deleteCollection(): Promise<void>;
+
+  /**
+   * Indexes the payload fields search filters on. Safe to call repeatedly.
+   */
+  createPayloadIndexes(): Promise<void>;
+
+  upsert(points: PointInput[]): Promise<void>;
+  searchDense(vector: number[], options: SearchOptions): Promise<ScoredPoint[]>;
+  searchSparse(vector: SparseVector, options: SearchOptions): Promise<ScoredPoint[]>;
+  retrieve(ids: (string | number)[]): Promise<StoredPoint[]>;
+  scroll(options: ScrollOptions): Promise<ScrollPage>;
+
+  /**
+   * Deletes points by ID, or every point matching a filter
+   */
+  delete(selector: { ids: (string | number)[] } | { filter: Filter }): Promise<void>;
+
+  /**
+   * Returns the state last recorded by the indexer, or undefined if it never ran
+   * against this collection. The state is never returned as a point.
+   */
+  getIndexState(): Promise<IndexState | undefined>;
+  setIndexState(state: IndexState): Promise<void>;
+
+  /**
+   * Makes every write so far durable and visible to other processes. Upserts
+   * and deletes may be buffered until then.
+   */
+  flush(): Promise<void>;
+}
+
+/**
+ * Creates the store selected by VECTOR_STORE: `qdrant` (default, configured by
+ * QDRANT_URL and QDRANT_API_KEY) or `local`, an embedded file-backed store kept
+ * under LOCAL_STORE_DIR that needs no running database.
+ */
+export function createVectorStore(collection: string): VectorStore {
+  const backend = (process.env.VECTOR_STORE || 'qdrant').toLowerCase();
+
+  switch (backend) {
+    case 'qdrant':
+      return new QdrantVectorStore(collection);
+    case 'local':
+      return new LocalVectorStore(
+        collection,
+        process.env.LOCAL_STORE_DIR || path.join(process.cwd(), '.vector-store')
+      );
+    default:
+      throw new Error(`Unknown VECTOR_STORE "${backend}" (expected "qdrant" or "local")`);
+  }
+}
@@ -0,0 +1,294 @@
+import express, { Request, Response, Router } from 'express';
+import { spawn } from 'child_process';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import path from 'path';
+import { Corpus, getCorpora } from './corpora.js';
+import { requireAdmin, requireApiKey } from './auth.js';
+import { createLogger, requestLogging } from './logger.js';
+
+export type IndexJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+/**
+ * A run of the indexer for one corpus, as reported by the jobs endpoint
+ */
+export interface IndexJob {
+  id: string;
+  corpus: string;
+  /** Files to reindex or remove, relative to the corpus directory; undefined reindexes the whole corpus */
+  files?: string[];
+  /** Pushed head commits and webhook deliveries merged into the job while it was queued */
+  commits: string[];
+  deliveries: string[];
+  status: IndexJobStatus;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  exitCode?: number | null;
+  error?: string;
+  /** Last lines the indexer wrote, kept for failed jobs */
+  output?: string[];
+}
+
+/**
+ * The parts of a GitHub push event payload we use
+ */
+interface PushEvent {
+  ref: string;
+  after: string;
+  deleted?: boolean;
+  forced?: boolean;
+  repository: { full_name: string };
+  commits?: { added?: string[], removed?: string[], modified?: string[] }[];
+}
+
+// Pushes touching more files than this reindex the whole corpus instead
+const MAX_JOB_FILES = 500;
+const MAX_FINISHED_JOBS = 100;
+const OUTPUT_LINES = 20;
+
+const logger = createLogger('webhooks');
+
+/**
+ * GITHUB_WEBHOOK_SECRET, the secret set on the GitHub webhook; without it
+ * every delivery is refused
+ */
+function getWebhookSecret(): string | undefined {
+  return process.env.GITHUB_WEBHOOK_SECRET || undefined;
+}
+
+/**
+ * An indexer run is killed after INDEX_JOB_TIMEOUT_MS (default 30 minutes)
+ */
+function getJobTimeoutMs(): number {
+  return Number(process.env.INDEX_JOB_TIMEOUT_MS) || 30 * 60 * 1000;
+}
+
+/**
+ * "owner/repo" of a GitHub repository URL, lowercased, or undefined for other hosts
+ */
+function getGitHubRepo(url: string): string | undefined {
+  return url.match(/github\.com[/:]([^/]+\/[^/]+?)(?:\.git)?\/?$/i)?.[1].toLowerCase();
+}
+
+/**
+ * Checks the X-Hub-Signature-256 header, an HMAC-SHA256 of the raw body
+ */
+function verifySignature(secret: string, body: Buffer, signature: string | undefined): boolean {
+  if (!signature?.startsWith('sha256=')) {
+    return false;
+  }
+  const expected = Buffer.from(`sha256=${createHmac('sha256', secret).update(body).digest('hex')}`);
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Files a push changed, or undefined when the payload cannot be trusted to
+ * list them all (a force push, or too many files) and the corpus must be
+ * reindexed in full. The indexer decides per file whether to index or remove it.
+ */
+function getChangedFiles(event: PushEvent): string[] | undefined {
+  if (event.forced || !event.commits) {
+    return undefined;
+  }
+  const files = new Set(event.commits.flatMap((commit) => [...commit.added ?? [], ...commit.modified ?? [], ...commit.removed ?? []]));
+  return files.size > MAX_JOB_FILES ? undefined : [...files].sort();
+}
+
+/**
+ * Runs indexer jobs one at a time, in the order queued, by spawning the
+ * index-docs script the way the indexing workflow does. Runs of the same
+ * corpus must not overlap, as they share its checkpoint and collection. A push
+ * arriving while a job for its corpus is still queued is merged into it.
+ */
+export class IndexJobQueue {
+  private jobs: IndexJob[] = [];
+  private running = false;
+
+  enqueue(corpus: Corpus, files: string[] | undefined, commit: string, delivery: string): IndexJob {
+    const queued = this.jobs.find((job) => job.status === 'queued' && job.corpus === corpus.name);
+    if (queued) {
+      queued.files = queued.files && files ? [...new Set([...queued.files, ...files])].sort() : undefined;
+      queued.commits.push(commit);
+      queued.deliveries.push(delivery);
+      logger.info('Merged push into queued index job', { job: queued.id, corpus: corpus.name, files: files?.length ?? 'all' });
+      return queued;
+    }
+
+    const job: IndexJob = {
+      id: randomUUID(),
+      corpus: corpus.name,
+      files,
+      commits: [commit],
+      deliveries: [delivery],
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+    };
+    this.jobs.push(job);
+    logger.info('Queued index job', { job: job.id, corpus: corpus.name, files: files?.length ?? 'all' });
+    this.runNext();
+    return job;
+  }
+
+  list(): IndexJob[] {
+    return [...this.jobs].reverse();
+  }
+
+  get(id: string): IndexJob | undefined {
+    return this.jobs.find((job) => job.id === id);
+  }
+
+  private runNext(): void {
+    const job = this.jobs.find((candidate) => candidate.status === 'queued');
+    if (this.running || !job) {
+      return;
+    }
+    this.running = true;
+    this.run(job).finally(() => {
+      this.running = false;
+      this.prune();
+      this.runNext();
+    });
+  }
+
+  private async run(job: IndexJob): Promise<void> {
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    logger.info('Starting index job', { job: job.id, corpus: job.corpus, files: job.files?.length ?? 'all' });
+
+    // Same as `pnpm run index-docs`, which syncs the checkout first
+    const args = [
+      '--enable-source-maps', '--import', 'tsx', path.join(process.cwd(), 'scripts', 'index-docs.ts'),
+      '--corpus', job.corpus,
+      ...(job.files ?? []).flatMap((file) => ['--file', file]),
+    ];
+    const output: string[] = [];
+    const collect = (chunk: Buffer) => {
+      output.push(...chunk.toString().split('\n').filter(Boolean));
+      output.splice(0, output.length - OUTPUT_LINES);
+    };
+
+    try {
+      job.exitCode = await new Promise<number | null>((resolve, reject) => {
+        const child = spawn(process.execPath, args, { cwd: process.cwd(), env: process.env, stdio: ['ignore', 'pipe', 'pipe'] });
+        const timer = setTimeout(() => {
+          output.push(`Killed after ${getJobTimeoutMs()}ms`);
+          child.kill('SIGTERM');
+        }, getJobTimeoutMs());
+        child.stdout.on('data', collect);
+        child.stderr.on('data', collect);
+        child.on('error', reject);
+        child.on('close', (code) => {
+          clearTimeout(timer);
+          resolve(code);
+        });
+      });
+      job.status = job.exitCode === 0 ? 'succeeded' : 'failed';
+    } catch (error) {
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+    }
+
+    job.finishedAt = new Date().toISOString();
+    const fields = { job: job.id, corpus: job.corpus, exitCode: job.exitCode, durationMs: Date.parse(job.finishedAt) - Date.parse(job.startedAt) };
+    if (job.status === 'succeeded') {
+      logger.info('Index job succeeded', fields);
+    } else {
+      job.output = output;
+      logger.error('Index job failed', { ...fields, error: job.error, output });
+    }
+  }
+
+  /**
+   * Forgets the oldest finished jobs beyond MAX_FINISHED_JOBS
+   */
+  private prune(): void {
+    const finished = this.jobs.filter((job) => job.status === 'succeeded' || job.status === 'failed');
+    const excess = new Set(finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)));
+    this.jobs = this.jobs.filter((job) => !excess.has(job));
+  }
+}
+
+const indexJobs = new IndexJobQueue();
+
+/**
+ * Routes under /webhooks. `POST /webhooks/github` takes push events from the
+ * documentation repositories, verified against GITHUB_WEBHOOK_SECRET, and
+ * queues reindexing of the files they changed for every corpus on the pushed
+ * branch. `GET /webhooks/github/jobs` and `GET /webhooks/github/jobs/:id`
+ * report jobs to keys with admin access.
+ *
+ * Mount it before the JSON body parser: signatures are computed over the raw body.
+ */
+export function createWebhookRouter(): Router {
+  const router = express.Router();
+  router.use(requestLogging);
+
+  router.post('/github', express.raw({ type: 'application/json', limit: '25mb' }), (req: Request, res: Response) => {
+    const secret = getWebhookSecret();
+    if (!secret) {
+      logger.warning('Refused webhook delivery: GITHUB_WEBHOOK_SECRET is not set');
+      res.status(503).json({ error: 'Service unavailable', message: 'Webhooks are not configured' });
+      return;
+    }
+    if (!Buffer.isBuffer(req.body)) {
+      res.status(415).json({ error: 'Unsupported media type', message: 'Set the webhook content type to application/json' });
+      return;
+    }
+    if (!verifySignature(secret, req.body, req.headers['x-hub-signature-256'] as string | undefined)) {
+      logger.warning('Rejected webhook delivery with an invalid signature');
+      res.status(401).json({ error: 'Unauthorized', message: 'Invalid X-Hub-Signature-256' });
+      return;
+    }
+
+    const event = req.headers['x-github-event'] as string | undefined;
+    const delivery = (req.headers['x-github-delivery'] as string | undefined) ?? '';
+    if (event === 'ping') {
+      res.json({ message: 'pong' });
+      return;
+    }
+    if (event !== 'push') {
+      res.json({ ignored: `Event ${event} is not handled` });
+      return;
+    }
+
+    let push: PushEvent;
+    try {
+      push = JSON.parse(req.body.toString('utf-8')) as PushEvent;
+    } catch {
+      res.status(400).json({ error: 'Bad request', message: 'Invalid JSON payload' });
+      return;
+    }
+    const repo = push.repository.full_name.toLowerCase();
+    const corpora = getCorpora().filter((corpus) =>
+      corpus.repo && getGitHubRepo(corpus.repo) === repo && push.ref === `refs/heads/${corpus.branch}`
+    );
+    if (corpora.length === 0 || push.deleted) {
+      res.json({ ignored: `No corpus is indexed from ${push.ref} of ${push.repository.full_name}` });
+      return;
+    }
+
+    const files = getChangedFiles(push);
+    if (files?.length === 0) {
+      res.json({ ignored: 'The push changed no files' });
+      return;
+    }
+    const jobs = corpora.map((corpus) => indexJobs.enqueue(corpus, files, push.after, delivery));
+    res.status(202).json({ jobs: jobs.map(({ id, corpus, status, files }) => ({ id, corpus, status, files })) });
+  });
+
+  router.get('/github/jobs', requireApiKey, requireAdmin, (_req: Request, res: Response) => {
+    res.json({ jobs: indexJobs.list() });
+  });
+
+  router.get('/github/jobs/:id', requireApiKey, requireAdmin, (req: Request, res: Response) => {
+    const job = indexJobs.get(req.params.id);
+    if (!job) {
+      res.status(404).json({ error: 'Not found', message: `No index job ${req.params.id}` });
+      return;
+    }
+    res.json(job);
+  });
+
+  return router;
+}
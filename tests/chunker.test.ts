@@ -0,0 +1,77 @@
+import { chunkMarkdown, mergeChunks } from '../src/shared/chunker';
+
+describe('chunkMarkdown', () => {
+  it('starts a chunk at every heading and records the heading path', () => {
+    const chunks = chunkMarkdown([
+      '# Guide',
+      'Intro.',
+      '## Setup',
+      'Install it.',
+      '### Linux',
+      'Use apt.',
+      '## Usage',
+      'Run it.',
+    ].join('\n\n'));
+
+    expect(chunks).toEqual([
+      { content: '# Guide\n\nIntro.', headings: ['Guide'] },
+      { content: '## Setup\n\nInstall it.', headings: ['Guide', 'Setup'] },
+      { content: '### Linux\n\nUse apt.', headings: ['Guide', 'Setup', 'Linux'] },
+      { content: '## Usage\n\nRun it.', headings: ['Guide', 'Usage'] },
+    ]);
+  });
+
+  it('keeps headings without a body in the path only and drops skipped levels', () => {
+    expect(chunkMarkdown('# Guide\n\n### Deep\n\nText.')).toEqual([
+      { content: '### Deep\n\nText.', headings: ['Guide', 'Deep'] },
+    ]);
+  });
+
+  it('splits long sections, repeating trailing sentences as overlap', () => {
+    const markdown = '# Title\n\nThe first point. The second point.\n\nThe third point. The fourth point.\n\nThe fifth point. The sixth point.';
+
+    expect(chunkMarkdown(markdown, 60, 30)).toEqual([
+      { content: '# Title\n\nThe first point. The second point.', headings: ['Title'] },
+      { content: 'The second point.\n\nThe third point. The fourth point.', headings: ['Title'] },
+      { content: 'The fourth point.\n\nThe fifth point. The sixth point.', headings: ['Title'] },
+    ]);
+  });
+
+  it('splits oversized prose at sentence boundaries', () => {
+    const sentence = 'This sentence is about forty characters.';
+    const chunks = chunkMarkdown(Array(6).fill(sentence).join(' '), 100, 0);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((chunk) => chunk.content.length <= 100)).toBe(true);
+    expect(chunks.every((chunk) => chunk.content.endsWith('.'))).toBe(true);
+  });
+
+  it('never splits code blocks', () => {
+    const code = ['```ts', ...Array(20).fill('const value = compute();'), '```'].join('\n');
+    const chunks = chunkMarkdown(`# Code\n\nBefore.\n\n${code}\n\nAfter.`, 100, 0);
+
+    expect(chunks.some((chunk) => chunk.content.includes(code))).toBe(true);
+    expect(chunks.filter((chunk) => chunk.content.includes('```'))).toHaveLength(1);
+  });
+});
+
+describe('mergeChunks', () => {
+  it('rebuilds the document without the repeated overlap', () => {
+    const markdown = [
+      '# Title',
+      'The first point. The second point.',
+      'The third point. The fourth point.',
+      '```sh\nrun --all\n```',
+      'The fifth point. The sixth point.',
+    ].join('\n\n');
+    const chunks = chunkMarkdown(markdown, 60, 30);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(mergeChunks(chunks.map((chunk) => chunk.content))).toBe(markdown);
+  });
+
+  it('joins chunks without overlap with a blank line', () => {
+    expect(mergeChunks(['# A\n\nOne.', '# B\n\nTwo.'])).toBe('# A\n\nOne.\n\n# B\n\nTwo.');
+    expect(mergeChunks([])).toBe('');
+  });
+});
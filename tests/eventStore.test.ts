@@ -0,0 +1,50 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { FileEventStore } from '../src/shared/eventStore';
+
+const message = (id: number): JSONRPCMessage => ({ jsonrpc: '2.0', id, result: {} });
+
+describe('FileEventStore', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'event-store-'));
+    file = path.join(dir, 'events.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replays a session\'s events after a reload, and only to that session', async () => {
+    const store = new FileEventStore(file);
+    const first = await store.forSession('s1', 'alice').storeEvent('stream', message(1));
+    await store.forSession('s1', 'alice').storeEvent('stream', message(2));
+
+    const reloaded = new FileEventStore(file);
+    expect(reloaded.findSession('s1')).toEqual({ owner: 'alice' });
+
+    const replayed: unknown[] = [];
+    const send = async (_eventId: string, sent: JSONRPCMessage) => { replayed.push(sent); };
+    expect(await reloaded.forSession('s1', 'alice').replayEventsAfter(first, { send })).toBe('stream');
+    expect(replayed).toEqual([message(2)]);
+
+    expect(await reloaded.forSession('s2', 'bob').replayEventsAfter(first, { send })).toBe('');
+    expect(replayed).toHaveLength(1);
+  });
+
+  it('keeps an ended session ended after a reload, even if events arrive late', async () => {
+    const store = new FileEventStore(file);
+    const session = store.forSession('s1', 'alice');
+    await session.storeEvent('stream', message(1));
+    store.endSession('s1');
+    await session.storeEvent('stream', message(2));
+
+    expect(store.findSession('s1')).toBeUndefined();
+    expect(store.size).toBe(0);
+    expect(new FileEventStore(file).findSession('s1')).toBeUndefined();
+  });
+});
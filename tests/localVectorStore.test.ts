@@ -0,0 +1,135 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { LocalVectorStore } from '../src/shared/localVectorStore';
+import type { PointInput } from '../src/shared/vectorStore';
+
+function point(id: string, payload: Record<string, unknown>, sparse?: PointInput['sparse']): PointInput {
+  return { id, dense: [1, 0], sparse, payload };
+}
+
+describe('LocalVectorStore', () => {
+  let dir: string;
+  let store: LocalVectorStore;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'local-store-'));
+    store = new LocalVectorStore('docs', dir);
+    await store.createCollection(2);
+    await store.upsert([
+      point('a', { metadata: { path: 'guide/intro.md', section: 'guide', tags: ['start', 'basics'], lastUpdated: '2024-01-10T00:00:00Z' } }),
+      point('b', { metadata: { path: 'guide/setup.md', section: 'guide', tags: ['setup'], lastUpdated: '2024-03-01T00:00:00Z' } }),
+      point('c', { metadata: { path: 'api/rpc.md', section: 'api', tags: [], lastUpdated: '2023-12-01T00:00:00Z' } }),
+      point('d', { metadata: { path: 'api/bundles.md', section: 'api', lastUpdated: '2024-02-15T00:00:00Z' } }),
+    ]);
+    await store.flush();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const ids = async (filter: Parameters<LocalVectorStore['scroll']>[0]['filter']) =>
+    (await store.scroll({ filter, limit: 100 })).points.map((p) => p.id);
+
+  it('reports the collection it holds', async () => {
+    expect(await store.getCollection()).toEqual({ denseSize: 2, hasSparse: true, pointsCount: 4 });
+    expect(await new LocalVectorStore('missing', dir).getCollection()).toBeUndefined();
+  });
+
+  describe('filters', () => {
+    it('matches values, any-of and substrings', async () => {
+      expect(await ids({ must: [{ key: 'metadata.section', match: { value: 'api' } }] })).toEqual(['c', 'd']);
+      expect(await ids({ must: [{ key: 'metadata.path', match: { any: ['api/rpc.md', 'guide/intro.md'] } }] })).toEqual(['a', 'c']);
+      expect(await ids({ must: [{ key: 'metadata.path', match: { text: 'setup' } }] })).toEqual(['b']);
+    });
+
+    it('matches array fields when any element matches', async () => {
+      expect(await ids({ must: [{ key: 'metadata.tags', match: { value: 'basics' } }] })).toEqual(['a']);
+      expect(await ids({ must: [{ key: 'metadata.tags', match: { any: ['setup', 'start'] } }] })).toEqual(['a', 'b']);
+    });
+
+    it('compares date ranges and skips points without the field', async () => {
+      expect(await ids({ must: [{ key: 'metadata.lastUpdated', range: { gte: '2024-02-01T00:00:00Z' } }] })).toEqual(['b', 'd']);
+      expect(await ids({ must: [{ key: 'metadata.missing', range: { lt: 10 } }] })).toEqual([]);
+    });
+
+    it('combines must, should, must_not, nested filters and IDs', async () => {
+      expect(await ids({
+        must: [{ should: [{ key: 'metadata.section', match: { value: 'guide' } }, { has_id: ['d'] }] }],
+        must_not: [{ key: 'metadata.path', match: { value: 'guide/setup.md' } }],
+      })).toEqual(['a', 'd']);
+      expect(await ids({ should: [{ has_id: ['c'] }, { key: 'metadata.tags', match: { value: 'setup' } }] })).toEqual(['b', 'c']);
+    });
+  });
+
+  describe('scroll', () => {
+    it('pages in ID order, each page starting at the previous nextOffset', async () => {
+      const first = await store.scroll({ limit: 3 });
+      expect(first.points.map((p) => p.id)).toEqual(['a', 'b', 'c']);
+      expect(first.nextOffset).toBe('d');
+
+      const second = await store.scroll({ limit: 3, offset: first.nextOffset });
+      expect(second.points.map((p) => p.id)).toEqual(['d']);
+      expect(second.nextOffset).toBeUndefined();
+    });
+
+    it('pages through filtered points only', async () => {
+      const filter = { must: [{ key: 'metadata.section', match: { value: 'api' } }] };
+      const first = await store.scroll({ filter, limit: 1 });
+      expect(first.points.map((p) => p.id)).toEqual(['c']);
+      const second = await store.scroll({ filter, limit: 1, offset: first.nextOffset });
+      expect(second).toEqual({ points: [expect.objectContaining({ id: 'd' })], nextOffset: undefined });
+    });
+  });
+
+  describe('searchSparse', () => {
+    beforeEach(async () => {
+      await store.upsert([
+        point('a', { text: 'rare' }, { indices: [1, 2], values: [1, 1] }),
+        point('b', { text: 'common' }, { indices: [2], values: [1] }),
+        point('c', { text: 'common' }, { indices: [2], values: [1] }),
+        point('d', { text: 'none' }, { indices: [3], values: [1] }),
+      ]);
+    });
+
+    it('weights terms by inverse document frequency', async () => {
+      const rare = Math.log((4 - 1 + 0.5) / (1 + 0.5) + 1);
+      const common = Math.log((4 - 3 + 0.5) / (3 + 0.5) + 1);
+      const results = await store.searchSparse({ indices: [1, 2], values: [1, 1] }, { limit: 10 });
+
+      expect(results.map((r) => r.id)).toEqual(['a', 'b', 'c']);
+      expect(results[0].score).toBeCloseTo(rare + common);
+      expect(results[1].score).toBeCloseTo(common);
+    });
+
+    it('computes IDF over the whole collection, not just the filtered points', async () => {
+      const common = Math.log((4 - 3 + 0.5) / (3 + 0.5) + 1);
+      const results = await store.searchSparse({ indices: [2], values: [1] }, { limit: 10, filter: { must: [{ has_id: ['b'] }] } });
+      expect(results).toHaveLength(1);
+      expect(results[0].score).toBeCloseTo(common);
+    });
+  });
+
+  describe('delete', () => {
+    it('deletes by ID', async () => {
+      await store.delete({ ids: ['a', 'c'] });
+      expect(await ids(undefined)).toEqual(['b', 'd']);
+    });
+
+    it('deletes the points a filter matches', async () => {
+      await store.delete({ filter: { must: [{ key: 'metadata.section', match: { value: 'guide' } }], must_not: [{ has_id: ['b'] }] } });
+      expect(await ids(undefined)).toEqual(['b', 'c', 'd']);
+      expect((await store.getCollection())?.pointsCount).toBe(3);
+    });
+
+    it('persists changes for other instances once flushed', async () => {
+      await store.delete({ filter: { must: [{ key: 'metadata.section', match: { value: 'api' } }] } });
+      expect((await new LocalVectorStore('docs', dir).scroll({ limit: 10 })).points.map((p) => p.id)).toEqual(['a', 'b', 'c', 'd']);
+
+      await store.flush();
+      const reopened = new LocalVectorStore('docs', dir);
+      expect((await reopened.scroll({ limit: 10 })).points.map((p) => p.id)).toEqual(['a', 'b']);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { Request, Response } from 'express';
+import { QUOTA_EXCEEDED_ERROR_CODE, RATE_LIMITED_ERROR_CODE, getUsageLedger, rateLimitToolCalls } from '../src/shared/rateLimit';
+
+const dir = mkdtempSync(path.join(tmpdir(), 'rate-limit-'));
+process.env.USAGE_LEDGER_FILE = path.join(dir, 'ledger.json');
+
+let nextIp = 0;
+
+// Each test is its own client, so buckets and daily counts do not carry over
+function client(): (body: unknown) => { passed: boolean, status?: number, code?: number, retryAfter?: unknown } {
+  const ip = `10.0.0.${++nextIp}`;
+  return (body) => {
+    const req = { body, ip } as unknown as Request;
+    const result: { passed: boolean, status?: number, code?: number, retryAfter?: unknown } = { passed: false };
+    const res = {
+      setHeader: (name: string, value: unknown) => { if (name === 'Retry-After') result.retryAfter = value; },
+      status: (status: number) => {
+        result.status = status;
+        return { json: (payload: { error: { code: number } }) => { result.code = payload.error.code; } };
+      },
+    } as unknown as Response;
+    rateLimitToolCalls(req, res, () => { result.passed = true; });
+    return result;
+  };
+}
+
+const toolCall = (id: number) => ({ jsonrpc: '2.0', id, method: 'tools/call', params: { name: 'search', arguments: {} } });
+const promptGet = (id: number) => ({ jsonrpc: '2.0', id, method: 'prompts/get', params: { name: 'how-to', arguments: {} } });
+
+describe('rateLimitToolCalls', () => {
+  beforeEach(() => {
+    process.env.RATE_LIMIT_PER_MINUTE = '1';
+    process.env.RATE_LIMIT_BURST = '2';
+    process.env.DAILY_QUOTA = '0';
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('lets other requests through untouched', () => {
+    const send = client();
+    for (let id = 1; id <= 5; id++) {
+      expect(send({ jsonrpc: '2.0', id, method: 'tools/list' }).passed).toBe(true);
+    }
+  });
+
+  it('allows a burst, then refuses calls until the bucket refills', () => {
+    const send = client();
+    expect(send(toolCall(1)).passed).toBe(true);
+    expect(send(toolCall(2)).passed).toBe(true);
+    expect(send(toolCall(3))).toEqual({ passed: false, status: 429, code: RATE_LIMITED_ERROR_CODE, retryAfter: 60 });
+  });
+
+  it('charges every call of a batch', () => {
+    const send = client();
+    expect(send([toolCall(1), toolCall(2)]).passed).toBe(true);
+    expect(send(toolCall(3))).toMatchObject({ passed: false, code: RATE_LIMITED_ERROR_CODE });
+  });
+
+  it('refuses calls beyond the daily quota until midnight', () => {
+    process.env.RATE_LIMIT_PER_MINUTE = '0';
+    process.env.DAILY_QUOTA = '2';
+    const send = client();
+    expect(send(toolCall(1)).passed).toBe(true);
+    expect(send(toolCall(2)).passed).toBe(true);
+    const refused = send(toolCall(3));
+    expect(refused).toMatchObject({ passed: false, status: 429, code: QUOTA_EXCEEDED_ERROR_CODE });
+    expect(refused.retryAfter).toBeGreaterThan(0);
+    expect(refused.retryAfter).toBeLessThanOrEqual(24 * 60 * 60);
+  });
+
+  it('counts prompts/get as a search call', () => {
+    const send = client();
+    expect(send(promptGet(1)).passed).toBe(true);
+    expect(send(toolCall(2)).passed).toBe(true);
+    expect(send(promptGet(3))).toMatchObject({ passed: false, status: 429, code: RATE_LIMITED_ERROR_CODE });
+    expect(getUsageLedger().query({ client: `ip:10.0.0.${nextIp}` })).toEqual([
+      expect.objectContaining({ tool: 'search', calls: 2 }),
+      expect.objectContaining({ tool: '(rejected)', calls: 1 }),
+    ]);
+  });
+});
@@ -0,0 +1,65 @@
+import { buildFilter, getPathPrefixes, reciprocalRankFusion } from '../src/shared/search';
+import type { ScoredPoint } from '../src/shared/vectorStore';
+
+describe('buildFilter', () => {
+  it('returns undefined without filters', () => {
+    expect(buildFilter()).toBeUndefined();
+    expect(buildFilter({ sections: [], tags: [] })).toBeUndefined();
+  });
+
+  it('builds one condition per filter', () => {
+    expect(buildFilter({
+      sections: ['guide', 'api'],
+      pathPrefix: '/guide/setup/',
+      tags: ['Setup'],
+      updatedSince: '2024-01-01',
+    })).toEqual({
+      must: [
+        { key: 'metadata.section', match: { any: ['guide', 'api'] } },
+        {
+          should: [
+            { key: 'metadata.path', match: { value: 'guide/setup' } },
+            { key: 'metadata.pathPrefixes', match: { value: 'guide/setup' } },
+          ],
+        },
+        { key: 'metadata.tags', match: { any: ['setup'] } },
+        { key: 'metadata.lastUpdated', range: { gte: '2024-01-01T00:00:00.000Z' } },
+      ],
+    });
+  });
+});
+
+describe('getPathPrefixes', () => {
+  it('lists every directory above a document', () => {
+    expect(getPathPrefixes('guide/setup/linux.md')).toEqual(['guide', 'guide/setup']);
+    expect(getPathPrefixes('index.md')).toEqual([]);
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  const list = (...ids: string[]): ScoredPoint[] => ids.map((id, i) => ({ id, score: 100 - i, payload: { id } }));
+
+  it('sums 1 / (k + rank) over the lists a point appears in', () => {
+    const fused = reciprocalRankFusion([list('a', 'b', 'c'), list('c', 'a')], 10, 60);
+
+    expect(fused.map((p) => p.id)).toEqual(['a', 'c', 'b']);
+    expect(fused[0].score).toBeCloseTo(1 / 61 + 1 / 62);
+    expect(fused[1].score).toBeCloseTo(1 / 63 + 1 / 61);
+    expect(fused[2].score).toBeCloseTo(1 / 62);
+  });
+
+  it('keeps the first payload and honours the limit', () => {
+    const fused = reciprocalRankFusion([
+      [{ id: 1, score: 0.9, payload: { from: 'dense' } }],
+      [{ id: '1', score: 12, payload: { from: 'sparse' } }, { id: 2, score: 3 }],
+    ], 1);
+
+    expect(fused).toEqual([{ id: 1, score: 2 / 61, payload: { from: 'dense' } }]);
+  });
+
+  it('does not modify its input', () => {
+    const dense = list('a');
+    reciprocalRankFusion([dense, list('a')], 10);
+    expect(dense[0].score).toBe(100);
+  });
+});
@@ -0,0 +1,137 @@
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { FileEventStore } from '../src/shared/eventStore';
+import { StreamableHttpSessions, createStreamableHttpRouter } from '../src/shared/streamableHttp';
+import { closeIdleSessions, terminateSession } from '../src/shared/sessions';
+
+process.env.API_KEYS = JSON.stringify([{ name: 'alice', key: 'alice-key' }, { name: 'bob', key: 'bob-key' }]);
+
+const createServer = () => new McpServer({ name: 'test', version: '1.0.0' }, { capabilities: { logging: {} } });
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+};
+
+describe('Streamable HTTP sessions', () => {
+  let eventStore: FileEventStore;
+  let servers: Server[];
+
+  beforeEach(() => {
+    eventStore = new FileEventStore();
+    servers = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(servers.map((server) => new Promise((resolve) => server.close(resolve))));
+  });
+
+  // Starts a server process's /mcp endpoint on a free port; several share the event store, as across restarts
+  async function start(): Promise<{ url: string, sessions: StreamableHttpSessions }> {
+    const sessions = new StreamableHttpSessions(createServer, () => eventStore);
+    const app = express();
+    app.use(express.json());
+    app.use('/mcp', createStreamableHttpRouter(sessions));
+    const server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    servers.push(server);
+    return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`, sessions };
+  }
+
+  function request(url: string, method: string, key: string, sessionId?: string, body?: unknown): Promise<globalThis.Response> {
+    return fetch(url, {
+      method,
+      headers: {
+        'authorization': `Bearer ${key}`,
+        'content-type': 'application/json',
+        'accept': 'application/json, text/event-stream',
+        'mcp-protocol-version': '2025-03-26',
+        ...(sessionId ? { 'mcp-session-id': sessionId } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  async function initialize(url: string, key = 'alice-key'): Promise<string> {
+    const response = await request(url, 'POST', key, undefined, INITIALIZE);
+    expect(response.status).toBe(200);
+    await response.text();
+    return response.headers.get('mcp-session-id')!;
+  }
+
+  async function listTools(url: string, sessionId: string, key = 'alice-key'): Promise<number> {
+    const response = await request(url, 'POST', key, sessionId, { jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    await response.text();
+    return response.status;
+  }
+
+  it('serves requests to an open session', async () => {
+    const { url } = await start();
+    const sessionId = await initialize(url);
+    expect(await listTools(url, sessionId)).toBe(200);
+  });
+
+  it('answers 404 once the client deletes its session', async () => {
+    const { url } = await start();
+    const sessionId = await initialize(url);
+    const deleted = await request(url, 'DELETE', 'alice-key', sessionId);
+    expect(deleted.status).toBe(200);
+
+    expect(await listTools(url, sessionId)).toBe(404);
+    expect(eventStore.findSession(sessionId)).toBeUndefined();
+  });
+
+  it('answers 404 once an admin terminates the session', async () => {
+    const { url } = await start();
+    const sessionId = await initialize(url);
+    expect(await terminateSession(sessionId)).toBe(true);
+
+    expect(await listTools(url, sessionId)).toBe(404);
+  });
+
+  it('answers 404 once the session is closed for being idle', async () => {
+    const { url } = await start();
+    const sessionId = await initialize(url);
+    process.env.SESSION_IDLE_TIMEOUT_MS = '1';
+    try {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      closeIdleSessions();
+      await new Promise((resolve) => setImmediate(resolve));
+    } finally {
+      delete process.env.SESSION_IDLE_TIMEOUT_MS;
+    }
+
+    expect(await listTools(url, sessionId)).toBe(404);
+  });
+
+  it('restores a session after a restart for the key that opened it', async () => {
+    const first = await start();
+    const sessionId = await initialize(first.url);
+    await first.sessions.closeAll();
+
+    const second = await start();
+    expect(await listTools(second.url, sessionId, 'bob-key')).toBe(404);
+    expect(await listTools(second.url, sessionId)).toBe(200);
+  });
+
+  it('does not restore a session deleted before the restart', async () => {
+    const first = await start();
+    const sessionId = await initialize(first.url);
+    await request(first.url, 'DELETE', 'alice-key', sessionId);
+    await first.sessions.closeAll();
+
+    const second = await start();
+    expect(await listTools(second.url, sessionId)).toBe(404);
+  });
+
+  it('answers 400 to a request without a session that is not an initialize request', async () => {
+    const { url } = await start();
+    const response = await request(url, 'POST', 'alice-key', undefined, { jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,56 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Corpus, getCorpusStore, retrieveFromCorpora } from '../src/shared/corpora';
+import { getDocument, getDocumentId, listDocuments } from '../src/shared/documents';
+import { searchDocs } from '../src/shared/search';
+import type { Embedder } from '../src/shared/embedder';
+
+const embedder: Embedder = {
+  provider: 'test',
+  model: 'test',
+  dimensions: async () => 2,
+  embed: async (texts) => texts.map(() => [1, 0]),
+};
+
+function corpus(name: string, collection: string): Corpus {
+  return { name, title: name, branch: 'main', glob: '**/*.md', collection, dir: name, sourceUrlTemplate: '{path}' };
+}
+
+// A corpus added to the registry but not indexed yet has no collection
+describe('corpora that are not all indexed', () => {
+  const indexed = corpus('a', 'col_a');
+  const unindexed = corpus('b', 'col_b');
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'unindexed-'));
+    process.env.VECTOR_STORE = 'local';
+    process.env.LOCAL_STORE_DIR = dir;
+    process.env.SEARCH_CACHE_TTL_MS = '0';
+
+    const store = getCorpusStore(indexed);
+    await store.createCollection(2);
+    await store.upsert([{
+      id: '00000000-0000-0000-0000-000000000001',
+      dense: [1, 0],
+      payload: { content: 'Bundles', metadata: { docId: getDocumentId('a', 'guide/bundles.md'), path: 'guide/bundles.md', section: 'guide', title: 'Bundles', chunkIndex: 0, totalChunks: 1 } },
+    }]);
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('searches the indexed ones', async () => {
+    const hits = await searchDocs([indexed, unindexed].map(getCorpusStore), embedder, undefined, { query: 'bundles', limit: 5, mode: 'semantic' });
+    expect(hits.map((hit) => hit.collection)).toEqual(['col_a']);
+    expect(await searchDocs([getCorpusStore(unindexed)], embedder, undefined, { query: 'bundles', limit: 5, mode: 'semantic' })).toEqual([]);
+  });
+
+  it('lists and reads documents of the indexed ones', async () => {
+    expect((await listDocuments([indexed, unindexed])).map((document) => document.path)).toEqual(['guide/bundles.md']);
+    expect((await retrieveFromCorpora([unindexed, indexed], '00000000-0000-0000-0000-000000000001'))?.corpus).toBe(indexed);
+    expect((await getDocument([unindexed, indexed], { path: 'guide/bundles.md' }))?.text).toBe('Bundles');
+  });
+});
@@ -0,0 +1,76 @@
+import express from 'express';
+import { createHmac } from 'crypto';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createWebhookRouter } from '../src/shared/webhooks';
+
+const SECRET = 'webhook-secret';
+
+const sign = (body: string, secret = SECRET) => `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+
+describe('GitHub webhook signatures', () => {
+  let server: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use('/webhooks', createWebhookRouter());
+    server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhooks/github`;
+  });
+
+  beforeEach(() => {
+    process.env.GITHUB_WEBHOOK_SECRET = SECRET;
+  });
+
+  afterAll(async () => {
+    delete process.env.GITHUB_WEBHOOK_SECRET;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  // A ping queues no indexer job, so the signature check is all that is exercised
+  function deliver(body: string, signature?: string): Promise<globalThis.Response> {
+    return fetch(url, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-github-event': 'ping',
+        ...(signature ? { 'x-hub-signature-256': signature } : {}),
+      },
+      body,
+    });
+  }
+
+  it('accepts a delivery signed with the secret', async () => {
+    const body = JSON.stringify({ zen: 'Keep it logically awesome.' });
+    const response = await deliver(body, sign(body));
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ message: 'pong' });
+  });
+
+  it('rejects a missing, malformed or wrong signature', async () => {
+    const body = JSON.stringify({ zen: 'Keep it logically awesome.' });
+    for (const signature of [undefined, 'sha256=', sign(body).slice(7), sign(body, 'other-secret')]) {
+      const response = await deliver(body, signature);
+      expect(response.status).toBe(401);
+      await response.text();
+    }
+  });
+
+  it('rejects a body changed after signing', async () => {
+    const body = JSON.stringify({ zen: 'Keep it logically awesome.' });
+    const response = await deliver(JSON.stringify({ zen: 'Tampered' }), sign(body));
+    expect(response.status).toBe(401);
+    await response.text();
+  });
+
+  it('refuses every delivery while no secret is configured', async () => {
+    delete process.env.GITHUB_WEBHOOK_SECRET;
+    const body = JSON.stringify({ zen: 'Keep it logically awesome.' });
+    const response = await deliver(body, sign(body));
+    expect(response.status).toBe(503);
+    await response.text();
+  });
+});